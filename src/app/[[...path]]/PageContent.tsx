@@ -7,7 +7,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import dynamic from 'next/dynamic';
-import { ArrowLeft, ArrowRight, Save, Plus, Upload, X, Image as ImageIcon, ArrowDownAZ, CalendarPlus, RefreshCw } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Save, Plus, Upload, X, Image as ImageIcon, ArrowDownAZ, CalendarPlus, RefreshCw, Lock } from 'lucide-react';
 import { BlockRenderer, findInfobox, infoboxHasContent, InfoboxSidebar } from '@/components/BlockRenderer';
 import { UserAvatar } from '@/components/UserAvatar';
 import { Breadcrumbs } from '@/components/Breadcrumbs';
@@ -19,6 +19,7 @@ import { findTagByPath, getXrdRequired, XRD_NOT_A_FEE, type SortOrder, type TagN
 import { categoryHref, toggleFilter, type Facet, type FacetFilters, type FacetValue, type SharedFacet } from '@/lib/taxonomy';
 import { createBlock } from '@/lib/block-utils';
 import { freshnessBanner } from '@/lib/freshness';
+import { activeProtection, describeProtection } from '@/lib/protection';
 import type { WikiPage } from '@/types';
 import type { Block } from '@/types/blocks';
 
@@ -32,9 +33,17 @@ const HistoryView = dynamic(() => import('@/components/HistoryView'), {
   loading: () => <div className="h-64 skeleton rounded-lg" />,
 });
 
-export type { HistoryData } from '@/components/HistoryView';
+export type { HistoryData, RevisionComparison } from '@/components/HistoryView';
 export { HistoryView };
 
+const BlameView = dynamic(() => import('@/components/BlameView'), {
+  ssr: false,
+  loading: () => <div className="h-64 skeleton rounded-lg" />,
+});
+
+export type { BlameData } from '@/components/BlameView';
+export { BlameView };
+
 const Discussion = dynamic(() => import('@/components/Discussion').then(m => m.Discussion), { ssr: false });
 const UserStats = dynamic(() => import('@/components/UserStats').then(m => m.UserStats));
 
@@ -269,7 +278,7 @@ export function HomepageView({ page, isEditing }: { page: WikiPage | null; isEdi
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      const res = await fetch('/api/wiki', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ title: 'Homepage', content, bannerImage }) });
+      const res = await fetch('/api/wiki', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ title: 'Homepage', content, bannerImage, baseVersion: page?.version }) });
       if (res.ok) router.push('/');
       else alert((await res.json()).error || 'Failed to save');
     } catch { alert('Failed to save'); }
@@ -456,6 +465,21 @@ function SeeAlso({ pages, tagPath, sharedFacet }: { pages: RelatedPage[]; tagPat
   );
 }
 
+// ========== PROTECTION NOTICE ==========
+function ProtectionNotice({ page }: { page: WikiPage }) {
+  const active = activeProtection(page);
+  if (!active) return null;
+  return (
+    <div className="editorial-banner editorial-banner-protected" role="note">
+      <Lock size={18} className="editorial-banner-icon" />
+      <p className="editorial-banner-body">
+        <strong>{describeProtection(active)}.</strong>
+        {active.reason && <> Reason: {active.reason}</>}
+      </p>
+    </div>
+  );
+}
+
 // ========== PAGE VIEW (Read-only) ==========
 function PageViewContent({ page, related, series }: { page: WikiPage; related: RelatedPages; series: PageRef | null }) {
   const { isAuthenticated } = useAuth();
@@ -473,6 +497,7 @@ function PageViewContent({ page, related, series }: { page: WikiPage; related: R
 
   const main = (
     <div className="page-main-content stack">
+      <ProtectionNotice page={page} />
       <BlockRenderer content={mainBlocks} />
       <SeeAlso pages={related.pages} tagPath={page.tagPath} sharedFacet={related.sharedFacet} />
       {isOwnProfile && <UserStats authorId={page.authorId} />}
@@ -10,13 +10,15 @@ import { ArrowLeft, Save, Trash2, Link2, X } from 'lucide-react';
 import { Breadcrumbs } from '@/components/Breadcrumbs';
 import { Button, Input, StatusCard } from '@/components/ui';
 import { useAuth, useStore } from '@/hooks';
-import { slugify } from '@/lib/utils';
+import { slugify, formatDate } from '@/lib/utils';
 import { findInfobox } from '@/components/BlockRenderer';
-import { isAuthorOnlyPath, isLockedPage, canEditAuthorOnlyPage, getMetadataKeys, getXrdRequired, XRD_NOT_A_FEE, type MetadataKeyDefinition } from '@/lib/tags';
-import { createBlock } from '@/lib/block-utils';
+import { activeProtection } from '@/lib/protection';
+import { isAuthorOnlyPath, canEditAuthorOnlyPage, getMetadataKeys, getXrdRequired, XRD_NOT_A_FEE, TAG_HIERARCHY, type MetadataKeyDefinition, type TagNode } from '@/lib/tags';
+import { createBlock, BLOCK_META } from '@/lib/block-utils';
 import { Banner } from './PageContent';
-import type { WikiPage, PageMetadata } from '@/types';
+import type { WikiPage, PageMetadata, WikiDraft } from '@/types';
 import type { Block } from '@/types/blocks';
+import type { MergeConflict } from '@/lib/versioning';
 
 const BlockEditor = dynamic(() => import('@/components/BlockEditor').then(m => m.BlockEditor), {
   ssr: false,
@@ -277,6 +279,18 @@ function EditorWhitelist({ editors, onAdd, onRemove }: {
 }
 
 // ========== PAGE EDITOR ==========
+function collectTagPaths(nodes: TagNode[], parentPath = ''): string[] {
+  return nodes.filter(n => n.slug && !n.hidden).flatMap(node => {
+    const path = parentPath ? `${parentPath}/${node.slug}` : node.slug;
+    return [path, ...(node.children ? collectTagPaths(node.children, path) : [])];
+  });
+}
+
+const TAG_PATHS = collectTagPaths(TAG_HIERARCHY);
+
+// Unsaved work is written to the server at most this often, so a crash or closed tab costs seconds, not the session.
+const AUTOSAVE_INTERVAL = 5000;
+
 export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; tagPath: string; slug: string }) {
   const router = useRouter();
   const { user } = useAuth();
@@ -287,26 +301,37 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
   const [bannerImage, setBannerImage] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<PageMetadata>({});
   const [editSlug, setEditSlug] = useState(slug);
+  const [editTagPath, setEditTagPath] = useState(tagPath);
+  const [rewriteLinks, setRewriteLinks] = useState(true);
   const [editorIds, setEditorIds] = useState<string[]>([]);
   const [editors, setEditors] = useState<{ id: string; displayName: string | null; radixAddress: string }[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<{ currentVersion: string | null; conflicts: MergeConflict[] } | null>(null);
   const [missingKeys, setMissingKeys] = useState<string[]>([]);
   const [revisionMessage, setRevisionMessage] = useState('');
+  const [minorEdit, setMinorEdit] = useState(false);
   const [gate, setGate] = useState<{ allowed: boolean; balance?: number; required?: number; error?: string } | null>(null);
+  const [savedDraft, setSavedDraft] = useState<WikiDraft | null>(null);
+  const [draftReady, setDraftReady] = useState(false);
+  const [draftBase, setDraftBase] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const draftBodyRef = useRef('');
+  const draftSnapshotRef = useRef('');
+  const draftEndpoint = `/api/drafts/${tagPath}/${slug}`;
   const isAuthor = user && page?.authorId === user.id;
   const metadataKeys = getMetadataKeys(tagPath.split('/'));
 
-  // State the XRD gate before any writing happens, not as a 403 after save.
+  // State the XRD gate and any page protection before any writing happens, not as a 403 after save.
   useEffect(() => {
     let cancelled = false;
-    fetch(`/api/auth/gate?type=${isCreating ? 'create' : 'edit'}&tagPath=${encodeURIComponent(tagPath)}`)
+    fetch(`/api/auth/gate?type=${isCreating ? 'create' : 'edit'}&tagPath=${encodeURIComponent(tagPath)}&slug=${encodeURIComponent(slug)}`)
       .then(r => (r.ok ? r.json() : null))
       .then(d => { if (!cancelled && d) setGate(d); })
       .catch(() => {});
     return () => { cancelled = true; };
-  }, [isCreating, tagPath]);
+  }, [isCreating, tagPath, slug]);
 
   useEffect(() => {
     if (page) {
@@ -315,6 +340,7 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
       setBannerImage(page.bannerImage || null);
       setMetadata((page.metadata as PageMetadata) || {});
       setEditSlug(page.slug);
+      setEditTagPath(page.tagPath);
       const ids = (page as WikiPage & { editorIds?: string[] }).editorIds ?? [];
       setEditorIds(ids);
       if (ids.length > 0) {
@@ -333,7 +359,57 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
     }
   }, [page, tagPath, slug]);
 
-  const save = async () => {
+  // A draft left from an earlier session is offered before autosave starts, so it can't be overwritten unseen.
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    fetch(draftEndpoint)
+      .then(r => (r.ok ? r.json() : null))
+      .then((d: WikiDraft | null) => { if (cancelled) return; if (d) setSavedDraft(d); else setDraftReady(true); })
+      .catch(() => { if (!cancelled) setDraftReady(true); });
+    return () => { cancelled = true; };
+  }, [user, draftEndpoint]);
+
+  const baseVersion = draftBase ?? page?.version ?? null;
+  // Written after render, not during, like RichInput's callback ref; the interval reads it later.
+  useEffect(() => {
+    draftBodyRef.current = JSON.stringify({ title, content, bannerImage, metadata, revisionMessage, baseVersion });
+  });
+
+  useEffect(() => {
+    if (!draftReady || isSaving) return;
+    if (!draftSnapshotRef.current) draftSnapshotRef.current = draftBodyRef.current;
+    const id = setInterval(() => {
+      const body = draftBodyRef.current;
+      if (body === draftSnapshotRef.current) return;
+      fetch(draftEndpoint, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body })
+        .then(r => { if (r.ok) { draftSnapshotRef.current = body; setDraftSavedAt(new Date()); } })
+        .catch(() => {});
+    }, AUTOSAVE_INTERVAL);
+    return () => clearInterval(id);
+  }, [draftReady, isSaving, draftEndpoint]);
+
+  const resumeDraft = (d: WikiDraft) => {
+    setTitle(d.title);
+    setContent(d.content);
+    setBannerImage(d.bannerImage);
+    setMetadata(d.metadata ?? {});
+    setRevisionMessage(d.revisionMessage ?? '');
+    setDraftBase(d.baseVersion);
+    setSavedDraft(null);
+    setDraftReady(true);
+  };
+
+  const discardDraft = () => {
+    fetch(draftEndpoint, { method: 'DELETE' }).catch(() => {});
+    setSavedDraft(null);
+    setDraftReady(true);
+  };
+
+  const isMoving = !!page && (editTagPath !== page.tagPath || slugify(editSlug) !== page.slug);
+
+  // baseVersion is the revision this edit started from; the server merges against whatever was saved since.
+  const save = async (saveBase = baseVersion ?? undefined) => {
     if (!title.trim()) { setSaveError('Title is required.'); return; }
     const missing = metadataKeys.filter(k => k.required && !metadata[k.key]?.trim());
     if (missing.length > 0) {
@@ -343,6 +419,7 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
     }
     setMissingKeys([]);
     setSaveError(null);
+    setConflict(null);
     setIsSaving(true);
     try {
       const exists = page || (await fetch(`/api/wiki/${tagPath}/${slug}`).then(r => r.ok));
@@ -350,23 +427,34 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
       const endpoint = exists ? `/api/wiki/${tagPath}/${slug}` : '/api/wiki';
       const newSlug = slugify(editSlug);
       const body = exists
-        ? { title, content, bannerImage, metadata, newSlug, editorIds, revisionMessage: revisionMessage.trim() || undefined }
+        ? { title, content, bannerImage, metadata, newSlug, newTagPath: editTagPath, rewriteLinks: isMoving && rewriteLinks, editorIds, baseVersion: saveBase, minorEdit, revisionMessage: revisionMessage.trim() || undefined }
         : { title, content, bannerImage, metadata, tagPath, slug: newSlug || slug };
       const res = await fetch(endpoint, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
       const data = await res.json();
       if (res.ok) {
-        if (data.isFirstContribution) useStore.getState().showToast('Your first contribution! Welcome to the wiki.');
+        await fetch(draftEndpoint, { method: 'DELETE' }).catch(() => {});
+        if (data.pending) useStore.getState().showToast('Your edit was submitted and will go live once a reviewer accepts it.', 'info');
+        else if (data.isFirstContribution) useStore.getState().showToast('Your first contribution! Welcome to the wiki.');
+        else if (data.merged) useStore.getState().showToast('Merged with changes saved while you were editing.');
         window.location.href = `/${data.tagPath}/${data.slug}`;
-      } else { setSaveError(data.error || 'Failed to save.'); setIsSaving(false); }
+      } else {
+        if (res.status === 409) setConflict({ currentVersion: data.currentVersion ?? null, conflicts: data.conflicts ?? [] });
+        setSaveError(data.error || 'Failed to save.');
+        setIsSaving(false);
+      }
     } catch { setSaveError('Failed to save.'); setIsSaving(false); }
   };
 
   const handleDelete = async () => {
-    if (!page || !confirm('Are you sure you want to delete this page?')) return;
+    if (!page || !confirm('Move this page to the trash? You can restore it from there until it is purged.')) return;
     setIsDeleting(true);
     try {
       const r = await fetch(`/api/wiki/${page.tagPath}/${page.slug}`, { method: 'DELETE' });
-      if (r.ok) router.push(`/${page.tagPath}`);
+      if (r.ok) {
+        const { purgeAfterDays } = await r.json();
+        useStore.getState().showToast(`Moved to the trash — restorable for ${purgeAfterDays} days.`, 'info');
+        router.push(`/${page.tagPath}`);
+      }
       else alert('Failed to delete');
     } catch { alert('Failed to delete'); }
     finally { setIsDeleting(false); }
@@ -376,7 +464,7 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
     return <StatusCard status="notAuthorized" backHref={viewPath} />;
   }
 
-  if (page && isLockedPage(page.tagPath, page.slug)) {
+  if (page && activeProtection(page)?.permanent) {
     return <StatusCard status="locked" backHref={viewPath} />;
   }
 
@@ -395,22 +483,67 @@ export default function PageEditor({ page, tagPath, slug }: { page?: WikiPage; t
       <header className="stack pb-6 border-b border-border">
         <div className="spread">
           <Link href={backHref} className="row link-muted"><ArrowLeft size={16} /><span>{isCreating ? 'Back to Category' : 'Back to Page'}</span></Link>
-          <Button onClick={save} disabled={isSaving || !canSave} size="sm"><Save size={16} />{saveLabel}</Button>
+          <div className="row">
+            {draftSavedAt && <span className="text-xs text-text-muted">Draft saved {draftSavedAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}</span>}
+            <Button onClick={() => save()} disabled={isSaving || !canSave} size="sm"><Save size={16} />{saveLabel}</Button>
+          </div>
         </div>
+        {savedDraft && (
+          <div data-callout="info">
+            <p>
+              You have an unsaved draft of this page from {formatDate(savedDraft.updatedAt, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}.
+              {page && savedDraft.baseVersion && savedDraft.baseVersion !== page.version && ` The page has moved on to v${page.version} since; saving will merge your draft with those changes.`}
+            </p>
+            <div className="row">
+              <Button size="sm" onClick={() => resumeDraft(savedDraft)}>Resume draft</Button>
+              <Button variant="ghost" size="sm" onClick={discardDraft}>Discard</Button>
+            </div>
+          </div>
+        )}
         {gate && !gate.allowed ? (
           <div data-callout="warning"><p>{gate.error}</p></div>
         ) : gate === null ? (
           <div data-callout="info"><p>{isCreating ? 'Creating a new page at' : 'Editing the page at'} <code>/{tagPath}/{slug}</code> requires holding <strong>{getXrdRequired(isCreating ? 'create' : 'edit', tagPath).toLocaleString()} XRD</strong> in your connected wallet. {XRD_NOT_A_FEE}</p></div>
         ) : null}
-        {saveError && <div data-callout="error"><p>{saveError}</p></div>}
+        {saveError && (
+          <div data-callout="error">
+            <p>{saveError}</p>
+            {conflict && conflict.conflicts.length > 0 && (
+              <ul>{conflict.conflicts.map(c => <li key={c.id}>{c.type === 'title' ? 'Title' : `${BLOCK_META[c.type]?.label ?? c.type} block`}: {c.head} by the other edit, {c.incoming} by yours</li>)}</ul>
+            )}
+            {conflict && (
+              <div className="row">
+                <Link href={viewPath} target="_blank" className="link-muted text-small">View current version</Link>
+                {conflict.currentVersion && (
+                  <Button variant="ghost" size="sm" onClick={() => save(conflict.currentVersion!)} disabled={isSaving}>Overwrite with my version</Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
         <input type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="Page Title" className="input-ghost text-h1 font-bold" autoFocus={isCreating} />
         <div className="slug-editor">
           <Link2 size={14} />
-          <span>/{tagPath}/</span>
+          {isCreating || !TAG_PATHS.includes(tagPath) ? <span>/{tagPath}/</span> : (
+            <select value={editTagPath} onChange={e => setEditTagPath(e.target.value)} title="Move to another category" aria-label="Category">
+              {TAG_PATHS.map(p => <option key={p} value={p}>/{p}/</option>)}
+            </select>
+          )}
           <input type="text" value={editSlug} onChange={e => setEditSlug(e.target.value.toLowerCase().replace(/[^\w\s-]/g, '').replace(/[\s_]+/g, '-'))} onBlur={() => setEditSlug(slugify(editSlug))} placeholder="page-slug" />
         </div>
+        {isMoving && (
+          <label className="row text-small text-text-muted">
+            <input type="checkbox" checked={rewriteLinks} onChange={e => setRewriteLinks(e.target.checked)} className="w-4 h-4 rounded border-border" />
+            Update links to this page on other pages (the old address redirects either way)
+          </label>
+        )}
         {!isCreating && (
-          <Input value={revisionMessage} onChange={e => setRevisionMessage(e.target.value)} placeholder="Edit summary — what changed and why (optional)" maxLength={200} />
+          <div className="row">
+            <div className="flex-1"><Input value={revisionMessage} onChange={e => setRevisionMessage(e.target.value)} placeholder="Edit summary — what changed and why (optional)" maxLength={200} /></div>
+            <label className="row text-small text-text-muted shrink-0" title="Caps the version bump at minor, e.g. for copy-edits that touch many blocks">
+              <input type="checkbox" checked={minorEdit} onChange={e => setMinorEdit(e.target.checked)} className="w-4 h-4 rounded border-border" />Minor edit
+            </label>
+          </div>
         )}
       </header>
       <Banner src={bannerImage} editable onUpload={setBannerImage} onRemove={() => setBannerImage(null)} />
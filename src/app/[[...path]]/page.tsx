@@ -2,18 +2,18 @@
 
 import type { Metadata } from 'next';
 import { Suspense } from 'react';
-import { notFound, redirect } from 'next/navigation';
-import { parsePath, getHomepage, getPage, getCategoryPages, getDescendantPages, getTagCounts, getPageRef, isIdeasPath, getIdeasPages, getPageHistory, resolveBlockData, getEcosystemPageByAsset } from '@/lib/wiki';
+import { notFound, redirect, permanentRedirect } from 'next/navigation';
+import { parsePath, getHomepage, getPage, getCategoryPages, getDescendantPages, getTagCounts, getPageRef, isIdeasPath, getIdeasPages, getPageHistory, getRevisionComparison, getPageBlame, getRedirect, resolveAlias, resolveBlockData, LIVE, getEcosystemPageByAsset, type ParsedPath } from '@/lib/wiki';
 import { getMaintenanceQueues } from '@/lib/maintenance';
 import { getSession } from '@/lib/auth';
 import type { RelatedPages, SubcategorySummary } from './PageContent';
-import { alphaIndex, buildFacets, facetFilters, filterPages, rankRelated, ALPHA_INDEX_MIN_PAGES } from '@/lib/taxonomy';
+import { alphaIndex, buildFacets, facetFilters, filterPages, rankRelated, searchFacetFilters, searchHref, ALPHA_INDEX_MIN_PAGES } from '@/lib/taxonomy';
 import { findTagByPath, getMainArticle, getSortOrder, TAG_HIERARCHY, type TagNode, type SortOrder } from '@/lib/tags';
 import { highlightBlocks } from '@/lib/highlight';
 import { processBlocks } from '@/lib/html';
 import { hasCodeBlocksInContent } from '@/lib/block-utils';
 import { prisma } from '@/lib/prisma/client';
-import { PageView, HomepageView, CategoryView, PageSkeleton, HistoryView, type HistoryData } from './PageContent';
+import { PageView, HomepageView, CategoryView, PageSkeleton, HistoryView, BlameView, type HistoryData, type RevisionComparison, type BlameData } from './PageContent';
 import dynamic from 'next/dynamic';
 
 const IdeasView = dynamic(() => import('./IdeasView'), { loading: () => <PageSkeleton /> });
@@ -22,6 +22,10 @@ const WelcomeView = dynamic(() => import('@/components/WelcomeView'), { loading:
 const RewardsView = dynamic(() => import('@/components/RewardsView'), { loading: () => <PageSkeleton /> });
 const SearchView = dynamic(() => import('@/components/SearchView'), { loading: () => <PageSkeleton /> });
 const MaintenanceView = dynamic(() => import('@/components/MaintenanceView'), { loading: () => <PageSkeleton /> });
+const ReviewQueueView = dynamic(() => import('@/components/ReviewQueueView'), { loading: () => <PageSkeleton /> });
+const TrashView = dynamic(() => import('@/components/TrashView'), { loading: () => <PageSkeleton /> });
+const ProtectionView = dynamic(() => import('@/components/ProtectionView'), { loading: () => <PageSkeleton /> });
+const SynonymsView = dynamic(() => import('@/components/SynonymsView'), { loading: () => <PageSkeleton /> });
 import ChartsOverview from '@/components/charts/ChartsOverview';
 import ValidatorsView from '@/components/charts/ValidatorsView';
 import TokensView from '@/components/charts/TokensView';
@@ -41,7 +45,7 @@ function collectTagPaths(nodes: TagNode[], parent = ''): string[] {
 }
 
 export async function generateStaticParams() {
-  const pages = await prisma.page.findMany({ select: { tagPath: true, slug: true } });
+  const pages = await prisma.page.findMany({ where: LIVE, select: { tagPath: true, slug: true } });
   const categories = collectTagPaths(TAG_HIERARCHY).filter(Boolean);
 
   return [
@@ -97,6 +101,45 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     };
   }
 
+  if (parsed.type === 'review') {
+    return {
+      title: 'Pending Changes — RADIX Wiki',
+      description: 'Edits held for review before they go live.',
+      robots: NOINDEX_ROBOTS,
+      alternates: { canonical: `${BASE_URL}/review` },
+    };
+  }
+
+  if (parsed.type === 'trash') {
+    return {
+      title: 'Trash — RADIX Wiki',
+      description: 'Deleted pages, restorable for a limited time.',
+      robots: NOINDEX_ROBOTS,
+      alternates: { canonical: `${BASE_URL}/trash` },
+    };
+  }
+
+  if (parsed.type === 'protection') {
+    return {
+      title: 'Page Protection — RADIX Wiki',
+      description: 'Protection levels set on individual pages.',
+      robots: NOINDEX_ROBOTS,
+      alternates: { canonical: `${BASE_URL}/protection` },
+    };
+  }
+
+  if (parsed.type === 'synonyms') {
+    return {
+      title: 'Search Synonyms — RADIX Wiki',
+      description: 'Names search treats as the same thing.',
+      robots: NOINDEX_ROBOTS,
+      alternates: { canonical: `${BASE_URL}/synonyms` },
+    };
+  }
+
+  // Only ever a redirect.
+  if (parsed.type === 'go') return { robots: NOINDEX_ROBOTS };
+
   // Static pages with fixed metadata. `path` is the URL where the parsed type
   // doesn't spell it (charts-validators lives at /charts/validators).
   const STATIC_META: Record<string, { title: string; description: string; path?: string }> = {
@@ -131,9 +174,9 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     };
   }
 
-  // Edit, history, and mdx variants shouldn't be indexed (they produce near-duplicate content)
-  if (parsed.type === 'edit' || parsed.type === 'history' || parsed.type === 'mdx') {
-    const label = parsed.type === 'edit' ? 'Edit' : parsed.type === 'history' ? 'Revision history' : 'MDX export';
+  // Edit, history, blame, and mdx variants shouldn't be indexed (they produce near-duplicate content)
+  if (parsed.type === 'edit' || parsed.type === 'history' || parsed.type === 'blame' || parsed.type === 'mdx') {
+    const label = parsed.type === 'edit' ? 'Edit' : parsed.type === 'history' ? 'Revision history' : parsed.type === 'blame' ? 'Blame' : 'MDX export';
     return {
       title: `${label} — RADIX Wiki`,
       description: `${label} view on RADIX Wiki.`,
@@ -331,12 +374,20 @@ function breadcrumbLd(path: string[], leafTitle?: string) {
 
 const VALID_SORTS = new Set<string>(['title', 'newest', 'oldest', 'recent']);
 
+/** A moved page leaves its old address behind; send visitors on, keeping any /edit, /history or /blame suffix. */
+async function followRedirect(parsed: ParsedPath) {
+  const to = await getRedirect(parsed.tagPath, parsed.slug);
+  if (to) permanentRedirect(`/${to.tagPath}/${to.slug}${parsed.suffix ? `/${parsed.suffix}` : ''}`);
+}
+
 export default async function DynamicPage({ params, searchParams }: Props) {
   const { path } = await params;
   const query = await searchParams;
   const str = (v: string | string[] | undefined) => (typeof v === 'string' ? v : undefined);
   const sortParam = str(query.sort);
   const q = str(query.q);
+  const compareFrom = str(query.from);
+  const compareTo = str(query.to);
   const parsed = parsePath(path);
 
   if (parsed.type === 'invalid') notFound();
@@ -345,8 +396,18 @@ export default async function DynamicPage({ params, searchParams }: Props) {
   // instead of rendering a duplicate article at a noindex URL.
   if (parsed.type === 'mdx') redirect(parsed.slug ? `/api/wiki/${parsed.tagPath}/${parsed.slug}/mdx` : '/api/wiki/mdx');
 
-  if (parsed.type === 'search') return <SearchView query={q ?? ''} />;
+  if (parsed.type === 'search') return <SearchView query={q ?? ''} filters={searchFacetFilters(query)} scope={query.scope === 'history' ? 'history' : 'pages'} />;
   if (parsed.type === 'maintenance') return <MaintenanceView queues={await getMaintenanceQueues()} />;
+  if (parsed.type === 'review') return <ReviewQueueView />;
+  if (parsed.type === 'trash') return <TrashView />;
+  if (parsed.type === 'protection') return <ProtectionView />;
+  if (parsed.type === 'synonyms') return <SynonymsView />;
+
+  // A short link by name: the page it names, or a search for it.
+  if (parsed.type === 'go' && parsed.alias) {
+    const target = await resolveAlias(parsed.alias);
+    redirect(target ? `/${target.tagPath}/${target.slug}` : searchHref(parsed.alias));
+  }
   if (parsed.type === 'leaderboard') return <LeaderboardView />;
   if (parsed.type === 'welcome') return <WelcomeView />;
   if (parsed.type === 'rewards') return <RewardsView />;
@@ -369,10 +430,19 @@ export default async function DynamicPage({ params, searchParams }: Props) {
   }
 
   if (parsed.type === 'history' && !parsed.tagPath && !parsed.slug) {
+    if (compareFrom && compareTo) {
+      const comparison = await getRevisionComparison('', '', compareFrom, compareTo) as RevisionComparison;
+      return <Suspense fallback={<PageSkeleton />}><HistoryView data={null} comparison={comparison} tagPath="" slug="" isHomepage /></Suspense>;
+    }
     const data = await getPageHistory('', '') as HistoryData;
     return <Suspense fallback={<PageSkeleton />}><HistoryView data={data} tagPath="" slug="" isHomepage /></Suspense>;
   }
 
+  if (parsed.type === 'blame' && !parsed.tagPath && !parsed.slug) {
+    const data = await getPageBlame('', '') as BlameData;
+    return <Suspense fallback={<PageSkeleton />}><BlameView data={data} tagPath="" slug="" isHomepage /></Suspense>;
+  }
+
   if (parsed.type === 'category') {
     const tagSegments = parsed.tagPath.split('/');
     const tag = findTagByPath(tagSegments);
@@ -435,12 +505,24 @@ export default async function DynamicPage({ params, searchParams }: Props) {
   }
 
   if (parsed.type === 'history') {
+    if (compareFrom && compareTo) {
+      const comparison = await getRevisionComparison(parsed.tagPath, parsed.slug, compareFrom, compareTo) as RevisionComparison;
+      return <Suspense fallback={<PageSkeleton />}><HistoryView data={null} comparison={comparison} tagPath={parsed.tagPath} slug={parsed.slug} /></Suspense>;
+    }
     const data = await getPageHistory(parsed.tagPath, parsed.slug) as HistoryData;
+    if (!data) await followRedirect(parsed);
     return <Suspense fallback={<PageSkeleton />}><HistoryView data={data} tagPath={parsed.tagPath} slug={parsed.slug} /></Suspense>;
   }
 
+  if (parsed.type === 'blame') {
+    const data = await getPageBlame(parsed.tagPath, parsed.slug) as BlameData;
+    if (!data) await followRedirect(parsed);
+    return <Suspense fallback={<PageSkeleton />}><BlameView data={data} tagPath={parsed.tagPath} slug={parsed.slug} /></Suspense>;
+  }
+
   const rawPage = await getPage(parsed.tagPath, parsed.slug);
   if (!rawPage) {
+    await followRedirect(parsed);
     const session = await getSession();
     if (!session) notFound();
     // Authenticated visitors fall through to PageView, which renders the create-page editor.
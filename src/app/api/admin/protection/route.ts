@@ -0,0 +1,72 @@
+// src/app/api/admin/protection/route.ts — Protected pages, and setting or lifting a page's protection level
+
+import { NextRequest } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth } from '@/lib/api';
+import { isAdmin } from '@/lib/auth';
+import { LIVE } from '@/lib/wiki';
+import { activeProtection, isProtectionLevel, PROTECTION_SELECT } from '@/lib/protection';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
+
+    const pages = await prisma.page.findMany({
+      where: { ...LIVE, protection: { not: 'none' } },
+      select: { id: true, title: true, protectedById: true, ...PROTECTION_SELECT },
+      orderBy: [{ tagPath: 'asc' }, { slug: 'asc' }],
+    });
+    const setterIds = [...new Set(pages.map(p => p.protectedById).filter((id): id is string => !!id))];
+    const setters = await prisma.user.findMany({ where: { id: { in: setterIds } }, select: { id: true, displayName: true, radixAddress: true } });
+    const byId = new Map(setters.map(u => [u.id, u]));
+
+    // Expired protections stay listed (marked inactive) until an admin lifts or renews them.
+    return json({
+      items: pages.map(({ protectedById, ...p }) => ({
+        ...p,
+        active: !!activeProtection(p),
+        protectedBy: protectedById ? byId.get(protectedById) ?? null : null,
+      })),
+    });
+  }, 'Failed to fetch protected pages');
+}
+
+export async function PUT(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
+
+    const { tagPath, slug, level, minPoints, reason, expiresAt } = await request.json() as {
+      tagPath?: string; slug?: string; level?: string; minPoints?: number | null; reason?: string | null; expiresAt?: string | null;
+    };
+    if (!tagPath || !slug) return errors.badRequest('tagPath and slug are required');
+    if (!isProtectionLevel(level)) return errors.badRequest('Level must be none, semi, author or locked');
+    if (minPoints != null && (!Number.isInteger(minPoints) || minPoints < 1)) return errors.badRequest('minPoints must be a positive whole number');
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (expiry && (Number.isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) return errors.badRequest('expiresAt must be a future date');
+
+    const page = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug }, ...LIVE }, select: { id: true } });
+    if (!page) return errors.notFound('Page not found');
+
+    const lifted = level === 'none';
+    const updated = await prisma.page.update({
+      where: { id: page.id },
+      data: {
+        protection: level,
+        protectionMinPoints: lifted || level !== 'semi' ? null : minPoints ?? null,
+        protectionReason: lifted ? null : reason?.trim() || null,
+        protectionExpiresAt: lifted ? null : expiry,
+        protectedById: lifted ? null : auth.session.userId,
+      },
+      select: { id: true, title: true, ...PROTECTION_SELECT },
+    });
+    revalidateTag('wiki', { expire: 0 });
+    return json({ ...updated, active: !!activeProtection(updated) });
+  }, 'Failed to set page protection');
+}
@@ -3,13 +3,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, requireAuth } from '@/lib/api';
+import { isAdmin } from '@/lib/auth';
 import { getEditorScores } from '@/lib/scoring';
 import { getTreasuryBalance, getTreasuryAddress } from '@/lib/radix/treasury';
+import { deliverWebhooks } from '@/lib/webhooks';
 
 export const dynamic = 'force-dynamic';
 
-const ADMIN_ADDRESS = process.env.ADMIN_ADDRESS || '';
-
 function computeShares(editors: { id: string; displayName: string | null; radixAddress: string; points: number }[]) {
   const total = editors.reduce((sum, e) => sum + e.points, 0);
   if (total === 0) return { editors: [], totalPoints: 0 };
@@ -31,7 +31,7 @@ export async function GET(request: NextRequest) {
   try {
     const auth = await requireAuth(request);
     if ('error' in auth) return auth.error;
-    if (auth.session.radixAddress !== ADMIN_ADDRESS) return errors.forbidden('Admin access required');
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
 
     const format = new URL(request.url).searchParams.get('format');
     const [balance, scored] = await Promise.all([getTreasuryBalance(), getEditorScores()]);
@@ -65,7 +65,7 @@ export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth(request);
     if ('error' in auth) return auth.error;
-    if (auth.session.radixAddress !== ADMIN_ADDRESS) return errors.forbidden('Admin access required');
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
 
     const body = await request.json();
     const { txHash, totalXrd, snapshot } = body;
@@ -82,6 +82,10 @@ export async function POST(request: NextRequest) {
         snapshotJson: snapshot,
       },
     });
+    deliverWebhooks('airdrop.recorded', {
+      airdrop: { id: airdrop.id, totalXrd: airdrop.totalXrd, editorCount: airdrop.editorCount, txHash: airdrop.txHash, createdAt: airdrop.createdAt.toISOString() },
+      actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress },
+    });
 
     return json(airdrop, 201);
   } catch (error) {
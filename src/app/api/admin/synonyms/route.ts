@@ -0,0 +1,66 @@
+// src/app/api/admin/synonyms/route.ts — The synonym table search expands queries with: list, save and delete groups
+
+import { NextRequest } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth } from '@/lib/api';
+import { isAdmin } from '@/lib/auth';
+import { normalizeSynonym } from '@/lib/search-query';
+
+export const dynamic = 'force-dynamic';
+
+const GROUP_SELECT = { id: true, terms: true, updatedAt: true } as const;
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
+
+    const groups = await prisma.synonymGroup.findMany({ select: GROUP_SELECT, orderBy: { createdAt: 'asc' } });
+    return json({ items: groups });
+  }, 'Failed to fetch synonyms');
+}
+
+/** Create a group, or replace the terms of the one `id` names. */
+export async function PUT(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
+
+    const { id, terms } = await request.json() as { id?: string; terms?: unknown };
+    if (!Array.isArray(terms)) return errors.badRequest('terms must be a list of names');
+    const names = [...new Set(terms.filter((t): t is string => typeof t === 'string').map(normalizeSynonym).filter(Boolean))];
+    if (names.length < 2) return errors.badRequest('A synonym group needs at least two different names');
+
+    // A name in two groups would make expansion depend on which group came first.
+    const clash = await prisma.synonymGroup.findFirst({ where: { terms: { hasSome: names }, ...(id ? { id: { not: id } } : {}) }, select: { terms: true } });
+    if (clash) {
+      const taken = names.filter(n => clash.terms.includes(n));
+      return errors.conflict(`Already in another group: ${taken.join(', ')}`);
+    }
+
+    if (id && !await prisma.synonymGroup.findUnique({ where: { id }, select: { id: true } })) return errors.notFound('Synonym group not found');
+    const group = id
+      ? await prisma.synonymGroup.update({ where: { id }, data: { terms: names }, select: GROUP_SELECT })
+      : await prisma.synonymGroup.create({ data: { terms: names }, select: GROUP_SELECT });
+    revalidateTag('wiki', { expire: 0 });
+    return json(group);
+  }, 'Failed to save synonyms');
+}
+
+export async function DELETE(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Admin access required');
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) return errors.badRequest('id is required');
+    const { count } = await prisma.synonymGroup.deleteMany({ where: { id } });
+    if (!count) return errors.notFound('Synonym group not found');
+    revalidateTag('wiki', { expire: 0 });
+    return json({ success: true });
+  }, 'Failed to delete synonyms');
+}
@@ -1,10 +1,14 @@
-// src/app/api/auth/gate/route.ts — pre-flight XRD balance check so the editor
-// can state the gate before any writing happens, not as a 403 after save.
+// src/app/api/auth/gate/route.ts — pre-flight XRD balance and page protection check
+// so the editor can state the gate before any writing happens, not as a 403 after save.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { requireBalance, type BalanceAction } from '@/lib/radix/balance';
 import { errors, handleRoute } from '@/lib/api';
+import { prisma } from '@/lib/prisma/client';
+import { checkProtection } from '@/lib/review';
+import { LIVE } from '@/lib/wiki';
+import { PROTECTION_SELECT } from '@/lib/protection';
 
 const GATE_TYPES = new Set(['create', 'edit', 'comment']);
 
@@ -18,6 +22,17 @@ export async function GET(request: NextRequest) {
     const tagPath = searchParams.get('tagPath') ?? '';
     if (!GATE_TYPES.has(type)) return errors.badRequest('Invalid gate type');
 
+    // Protection outranks balance: no amount of XRD gets past it.
+    const slug = searchParams.get('slug');
+    if (type === 'edit' && slug) {
+      const page = await prisma.page.findUnique({
+        where: { tagPath_slug: { tagPath, slug }, ...LIVE },
+        select: { authorId: true, editorIds: true, ...PROTECTION_SELECT },
+      });
+      const denied = page && await checkProtection(session, page);
+      if (denied) return NextResponse.json({ allowed: false, protected: true, error: denied });
+    }
+
     const check = await requireBalance(session, { type, tagPath } as BalanceAction);
     if (check.ok) return NextResponse.json({ allowed: true, balance: check.balance });
     // The 403 body already carries balance/required/error — surface it as gate data.
@@ -3,7 +3,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute, requireAuth, parsePagination, paginatedResponse, CACHE, type RouteContext } from '@/lib/api';
-import { AUTHOR_SELECT } from '@/lib/wiki';
+import { AUTHOR_SELECT, LIVE } from '@/lib/wiki';
 import type { CommentInput } from '@/types';
 import { deliverWebhooks } from '@/lib/webhooks';
 
@@ -44,7 +44,7 @@ export async function POST(request: NextRequest) {
     if (!content?.trim()) return errors.badRequest('Content is required');
     if (content.length > 5000) return errors.badRequest('Comment too long (max 5000 chars)');
 
-    const page = await prisma.page.findUnique({ where: { id: pageId }, select: { id: true, slug: true, title: true, tagPath: true, version: true, authorId: true } });
+    const page = await prisma.page.findUnique({ where: { id: pageId, ...LIVE }, select: { id: true, slug: true, title: true, tagPath: true, version: true, metadata: true, authorId: true } });
     if (!page) return errors.notFound('Page not found');
 
     const auth = await requireAuth(request, { type: 'comment', tagPath: page.tagPath });
@@ -76,7 +76,7 @@ export async function POST(request: NextRequest) {
       prisma.notification.create({ data: { userId: parentComment.authorId, actorId: auth.session.userId, type: 'comment_reply', pageId, commentId: comment.id } }).catch(() => {});
     }
 
-    deliverWebhooks('comment.created', page, null, { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress }, { id: comment.id, content: comment.content, parentId: parentId || null });
+    deliverWebhooks('comment.created', { page, comment: { id: comment.id, content: comment.content, parentId: parentId || null }, actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress } });
     return json(comment, 201);
   }, 'Failed to create comment');
 }
@@ -91,11 +91,12 @@ export async function DELETE(request: NextRequest, context: RouteContext<PathPar
     const auth = await requireAuth(request);
     if ('error' in auth) return auth.error;
 
-    const comment = await prisma.comment.findUnique({ where: { id } });
+    const comment = await prisma.comment.findUnique({ where: { id }, include: { page: { select: { slug: true, title: true, tagPath: true, version: true, metadata: true } } } });
     if (!comment) return errors.notFound('Comment not found');
     if (comment.authorId !== auth.session.userId) return errors.forbidden();
 
     await prisma.comment.delete({ where: { id } });
+    deliverWebhooks('comment.deleted', { page: comment.page, comment: { id, parentId: comment.parentId }, actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress } });
     return json({ success: true });
   }, 'Failed to delete comment');
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+// src/app/api/drafts/[[...path]]/route.ts — Editor autosave: one draft per user and page
+
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { parsePath } from '@/lib/wiki';
+import { validateBlocks } from '@/lib/block-utils';
+import { isValidTagPath, isAuthorOnlyPath, canEditAuthorOnlyPage } from '@/lib/tags';
+import { checkProtection } from '@/lib/review';
+import { PROTECTION_SELECT } from '@/lib/protection';
+import { requireBalance } from '@/lib/radix/balance';
+import type { AuthSession, PageMetadata } from '@/types';
+
+type PathParams = { path?: string[] };
+
+const MAX_DRAFTS = 50;
+
+const DRAFT_LIST_SELECT = { id: true, tagPath: true, slug: true, title: true, baseVersion: true, updatedAt: true } as const;
+
+// Drafts only exist for tag-path pages: the homepage has its own inline editor.
+async function draftKey(context: RouteContext<PathParams>) {
+  const { path } = await context.params;
+  const parsed = parsePath(path, 'api');
+  return parsed.type === 'page' && !parsed.suffix ? { tagPath: parsed.tagPath, slug: parsed.slug } : null;
+}
+
+/** Why this draft could never be saved, as the wiki's own create and edit checks would refuse it; null when it could. */
+async function draftDenial(session: AuthSession, key: { tagPath: string; slug: string }) {
+  // A trashed page keeps its address, so it is neither editable nor free to create.
+  const page = await prisma.page.findUnique({ where: { tagPath_slug: key }, select: { deletedAt: true, authorId: true, editorIds: true, ...PROTECTION_SELECT } });
+  if (page?.deletedAt) return errors.notFound('This page is in the trash');
+  if (!page && !isValidTagPath(key.tagPath.split('/'))) return errors.notFound('Invalid path');
+
+  const check = await requireBalance(session, { type: page ? 'edit' : 'create', tagPath: key.tagPath });
+  if (!check.ok) return check.response;
+  if (!page) return null;
+
+  if (isAuthorOnlyPath(page.tagPath) && !canEditAuthorOnlyPage(page, session.userId)) {
+    return errors.forbidden('You can only edit your own pages in this category');
+  }
+  const denied = await checkProtection(session, page);
+  return denied ? errors.forbidden(denied) : null;
+}
+
+export async function GET(request: NextRequest, context: RouteContext<PathParams>) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    const { userId } = auth.session;
+
+    // No path: the caller's open drafts, most recently touched first.
+    if (!(await context.params).path?.length) {
+      const drafts = await prisma.draft.findMany({ where: { userId }, select: DRAFT_LIST_SELECT, orderBy: { updatedAt: 'desc' } });
+      return json(drafts);
+    }
+
+    const key = await draftKey(context);
+    if (!key) return errors.notFound('Invalid path');
+    const draft = await prisma.draft.findUnique({ where: { userId_tagPath_slug: { userId, ...key } } });
+    if (!draft) return errors.notFound('No draft for this page');
+    return json(draft);
+  }, 'Failed to fetch drafts');
+}
+
+export async function PUT(request: NextRequest, context: RouteContext<PathParams>) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    const { userId } = auth.session;
+
+    const key = await draftKey(context);
+    if (!key) return errors.notFound('Invalid path');
+
+    const body = await request.json() as {
+      title?: string; content?: unknown; bannerImage?: string | null; metadata?: PageMetadata;
+      revisionMessage?: string; baseVersion?: string | null;
+    };
+    if (!validateBlocks(body.content)) return errors.badRequest('Invalid block structure');
+    const denial = await draftDenial(auth.session, key);
+    if (denial) return denial;
+
+    const where = { userId_tagPath_slug: { userId, ...key } };
+    if (!(await prisma.draft.findUnique({ where, select: { id: true } }))) {
+      const count = await prisma.draft.count({ where: { userId } });
+      if (count >= MAX_DRAFTS) return errors.badRequest(`Maximum ${MAX_DRAFTS} drafts per user — save or discard one first`);
+    }
+
+    const data = {
+      title: body.title ?? '',
+      content: body.content as unknown as Prisma.InputJsonValue,
+      bannerImage: body.bannerImage ?? null,
+      metadata: body.metadata ?? Prisma.JsonNull,
+      revisionMessage: body.revisionMessage?.trim() || null,
+    };
+    // baseVersion is fixed when the draft is first written: it is the revision the
+    // edit started from, and the eventual save merges against whatever came after it.
+    const draft = await prisma.draft.upsert({
+      where,
+      create: { userId, ...key, ...data, baseVersion: body.baseVersion ?? null },
+      update: data,
+      select: DRAFT_LIST_SELECT,
+    });
+    return json(draft);
+  }, 'Failed to save draft');
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext<PathParams>) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const key = await draftKey(context);
+    if (!key) return errors.notFound('Invalid path');
+    await prisma.draft.deleteMany({ where: { userId: auth.session.userId, ...key } });
+    return json({ success: true });
+  }, 'Failed to discard draft');
+}
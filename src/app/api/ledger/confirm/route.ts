@@ -1,7 +1,10 @@
-// src/app/api/ledger/confirm/route.ts — Store backup tx hash on page record
+// src/app/api/ledger/confirm/route.ts — Store backup tx hash on page record, once the ledger has committed it
 
 import { prisma } from '@/lib/prisma/client';
 import { requireAuth, handleRoute, json, errors } from '@/lib/api';
+import { LIVE } from '@/lib/wiki';
+import { INTENT_HASH_PATTERN, isTransactionCommitted } from '@/lib/radix/ledger';
+import { deliverWebhooks } from '@/lib/webhooks';
 import type { NextRequest } from 'next/server';
 
 export async function POST(request: NextRequest) {
@@ -11,11 +14,18 @@ export async function POST(request: NextRequest) {
 
     const { tagPath, slug, txHash } = await request.json() as { tagPath: string; slug: string; txHash: string };
     if (!tagPath || !slug || !txHash) return errors.badRequest('tagPath, slug, and txHash are required');
+    if (typeof txHash !== 'string' || !INTENT_HASH_PATTERN.test(txHash)) return errors.badRequest('txHash must be a transaction intent hash');
 
-    await prisma.page.update({
-      where: { tagPath_slug: { tagPath, slug } },
+    const existing = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug }, ...LIVE }, select: { id: true } });
+    if (!existing) return errors.notFound('Page not found');
+    if (!(await isTransactionCommitted(txHash))) return errors.conflict('That transaction is not committed on the ledger');
+
+    const page = await prisma.page.update({
+      where: { id: existing.id },
       data: { backupTxHash: txHash },
+      select: { slug: true, title: true, tagPath: true, version: true, metadata: true },
     });
+    deliverWebhooks('ledger.backup.confirmed', { page, txHash, actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress } });
 
     return json({ ok: true });
   }, 'Failed to confirm backup');
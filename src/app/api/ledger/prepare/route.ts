@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma/client';
 import { requireAuth, handleRoute, json, errors } from '@/lib/api';
 import { buildPageBackupManifest } from '@/lib/radix/ledger';
 import { blocksToMdx } from '@/lib/mdx';
+import { LIVE } from '@/lib/wiki';
 import type { NextRequest } from 'next/server';
 
 export async function POST(request: NextRequest) {
@@ -15,7 +16,7 @@ export async function POST(request: NextRequest) {
     if (!tagPath || !slug) return errors.badRequest('tagPath and slug are required');
 
     const page = await prisma.page.findFirst({
-      where: { tagPath, slug },
+      where: { tagPath, slug, ...LIVE },
       select: {
         slug: true, tagPath: true, title: true, content: true,
         version: true, updatedAt: true, createdAt: true,
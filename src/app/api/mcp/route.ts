@@ -4,8 +4,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
 import { BASE_URL, getContentSnippet, getMatchSnippet } from '@/lib/utils';
-import { orderByIds, searchPageIds } from '@/lib/wiki';
+import { orderByIds, searchPageIds, semanticSearchPageIds, LIVE } from '@/lib/wiki';
 import { extractText } from '@/lib/content';
+import { activeProtection, describeProtection, PROTECTION_SELECT } from '@/lib/protection';
 import { TAG_HIERARCHY, getMetadataKeys, type TagNode } from '@/lib/tags';
 import { MCP_MANIFEST, SERVER_INFO } from '@/lib/mcp-tools';
 import type { Block } from '@/types/blocks';
@@ -34,7 +35,7 @@ const RESOURCES = [
 // ========== DB SELECT SHAPES ==========
 
 const SUMMARY_SELECT = { title: true, tagPath: true, slug: true, content: true, updatedAt: true, metadata: true, lastVerifiedAt: true } as const;
-const FULL_SELECT = { ...SUMMARY_SELECT, version: true } as const;
+const FULL_SELECT = { ...SUMMARY_SELECT, ...PROTECTION_SELECT, version: true } as const;
 const IDEAS_SELECT = { title: true, tagPath: true, slug: true, metadata: true, updatedAt: true } as const;
 
 function pageUrl(tagPath: string, slug: string) {
@@ -100,25 +101,47 @@ function buildCategoryTree(nodes: TagNode[], counts: Map<string, number>, parent
 
 // ========== TOOL HANDLERS ==========
 
-async function search_wiki(args: { query: string; tagPath?: string; page?: number; pageSize?: number }) {
-  const { query, tagPath, page = 1, pageSize = 20 } = args;
+const PASSAGE_MAX = 400;
+
+async function search_wiki(args: { query: string; tagPath?: string; mode?: string; page?: number; pageSize?: number }) {
+  const { query, tagPath, mode, page = 1, pageSize = 20 } = args;
   const size = Math.min(pageSize, 50);
-  const { ids, total } = await searchPageIds(query, { tagPath, skip: (page - 1) * size, take: size });
+  const options = { tagPath, skip: (page - 1) * size, take: size };
+  const { ids, total, fuzzy, suggestion, passages, lexical } = mode === 'semantic'
+    ? await semanticSearchPageIds(query, options)
+    : await searchPageIds(query, options);
   const results = ids.length
-    ? await prisma.page.findMany({ where: { id: { in: ids } }, select: { id: true, ...SUMMARY_SELECT } })
+    ? await prisma.page.findMany({ where: { id: { in: ids }, ...LIVE }, select: { id: true, ...SUMMARY_SELECT } })
     : [];
-  return { total, page, pageSize: size, pages: orderByIds(results, ids).map(p => summarizePage(p, query)) };
+  return {
+    total, page, pageSize: size,
+    ...(fuzzy ? { note: 'Nothing matched as typed; these are near misses.' } : {}),
+    ...(suggestion ? { didYouMean: suggestion } : {}),
+    ...(lexical ? { matching: 'lexical fallback: no embedding model is configured, so sections matched by word forms, not meaning' } : {}),
+    pages: orderByIds(results, ids).map(p => {
+      const summary = summarizePage(p, suggestion ?? query);
+      const passage = passages?.[p.id];
+      // Semantic hits quote the section that answered the question instead of a keyword snippet.
+      return passage ? {
+        ...summary,
+        ...(passage.heading ? { section: passage.heading } : {}),
+        snippet: passage.text.length > PASSAGE_MAX ? `${passage.text.slice(0, PASSAGE_MAX).trimEnd()}…` : passage.text,
+      } : summary;
+    }),
+  };
 }
 
 async function get_page(args: { tagPath: string; slug: string }) {
   const p = await prisma.page.findUnique({
-    where: { tagPath_slug: { tagPath: args.tagPath, slug: args.slug } },
+    where: { tagPath_slug: { tagPath: args.tagPath, slug: args.slug }, ...LIVE },
     select: FULL_SELECT,
   });
   if (!p) return null;
+  const protection = activeProtection(p);
   return {
     ...summarizePage(p),
     version: p.version,
+    ...(protection ? { protection: `${describeProtection(protection)}${protection.reason ? ` (${protection.reason})` : ''}` } : {}),
     content: extractText((p.content as unknown as Block[]) || []),
   };
 }
@@ -126,7 +149,7 @@ async function get_page(args: { tagPath: string; slug: string }) {
 async function list_pages(args: { tagPath?: string; sort?: string; page?: number; pageSize?: number }) {
   const { tagPath, sort = 'updatedAt', page = 1, pageSize = 20 } = args;
   const size = Math.min(pageSize, 100);
-  const where = tagPath ? { tagPath } : {};
+  const where = tagPath ? { tagPath, ...LIVE } : LIVE;
   const orderBy = sort === 'title' ? { title: 'asc' as const } : { updatedAt: 'desc' as const };
   const [results, total] = await Promise.all([
     prisma.page.findMany({ where, select: SUMMARY_SELECT, orderBy, skip: (page - 1) * size, take: size }),
@@ -137,7 +160,7 @@ async function list_pages(args: { tagPath?: string; sort?: string; page?: number
 
 async function get_categories() {
   const paths = collectCategoryPaths(TAG_HIERARCHY);
-  const counts = await prisma.page.groupBy({ by: ['tagPath'], _count: true });
+  const counts = await prisma.page.groupBy({ by: ['tagPath'], where: LIVE, _count: true });
   const countMap = new Map(counts.map(c => [c.tagPath, c._count]));
   return { categories: buildCategoryTree(TAG_HIERARCHY, countMap), totalPages: counts.reduce((s, c) => s + c._count, 0) };
 }
@@ -148,7 +171,7 @@ async function get_recent_changes(args: { days?: number; limit?: number }) {
   const since = new Date();
   since.setDate(since.getDate() - days);
   const pages = await prisma.page.findMany({
-    where: { updatedAt: { gte: since } },
+    where: { updatedAt: { gte: since }, ...LIVE },
     select: SUMMARY_SELECT,
     orderBy: { updatedAt: 'desc' },
     take: limit,
@@ -159,7 +182,7 @@ async function get_recent_changes(args: { days?: number; limit?: number }) {
 async function get_full_corpus() {
   const pages = await prisma.page.findMany({
     select: FULL_SELECT,
-    where: { tagPath: { not: '' }, slug: { not: '' } },
+    where: { tagPath: { not: '' }, slug: { not: '' }, ...LIVE },
     orderBy: { updatedAt: 'desc' },
   });
   const sections = pages.map(p => {
@@ -172,7 +195,7 @@ async function get_full_corpus() {
 
 async function get_ideas_board(args: { category?: string; workingGroup?: string }) {
   const pages = await prisma.page.findMany({
-    where: { tagPath: { startsWith: 'ideas' } },
+    where: { tagPath: { startsWith: 'ideas' }, ...LIVE },
     select: IDEAS_SELECT,
     orderBy: { updatedAt: 'desc' },
   });
@@ -252,7 +275,10 @@ async function forwardWrite(path: string, method: 'POST' | 'PUT', body: unknown,
     body: JSON.stringify(body),
   });
   const data = await res.json().catch(() => null) as Record<string, unknown> | null;
-  if (!res.ok) return { error: (data?.error as string) || `Request failed (${res.status})` };
+  if (!res.ok) {
+    const conflicts = (data?.conflicts as { id: string }[] | undefined)?.map(c => c.id) ?? [];
+    return { error: ((data?.error as string) || `Request failed (${res.status})`) + (conflicts.length ? ` — conflicting blocks: ${conflicts.join(', ')}` : '') };
+  }
   return data ?? {};
 }
 
@@ -271,9 +297,12 @@ async function create_page(args: Record<string, unknown>, auth: string | null) {
 }
 
 async function edit_page(args: Record<string, unknown>, auth: string | null) {
-  const { tagPath, slug, content, title, revisionMessage, metadata } = args;
-  const result = await forwardWrite(`/api/wiki/${tagPath}/${slug}`, 'PUT', { content, title, revisionMessage, metadata }, auth);
+  const { tagPath, slug, content, title, revisionMessage, metadata, baseVersion, minorEdit } = args;
+  const result = await forwardWrite(`/api/wiki/${tagPath}/${slug}`, 'PUT', { content, title, revisionMessage, metadata, baseVersion, minorEdit }, auth);
   if ('error' in result) return result;
+  if (result.pending) {
+    return { edited: false, pending: true, revisionId: result.revisionId, url: pageUrl(result.tagPath as string, result.slug as string), note: 'Held for review: edits here from contributors below the review threshold go live once a trusted editor accepts them.' };
+  }
   return {
     edited: true,
     url: pageUrl(result.tagPath as string, result.slug as string),
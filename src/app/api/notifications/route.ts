@@ -3,7 +3,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute, requireAuth, parsePagination, paginatedResponse } from '@/lib/api';
-import { AUTHOR_SELECT } from '@/lib/wiki';
+import { AUTHOR_SELECT, LIVE } from '@/lib/wiki';
 
 export async function GET(request: NextRequest) {
   return handleRoute(async () => {
@@ -13,7 +13,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const { page, pageSize } = parsePagination(searchParams, { pageSize: 20 });
 
-    const where = { userId: auth.session.userId };
+    const where = { userId: auth.session.userId, page: LIVE };
     const [notifications, total, unreadCount] = await Promise.all([
       prisma.notification.findMany({
         where,
@@ -26,7 +26,7 @@ export async function GET(request: NextRequest) {
         take: pageSize,
       }),
       prisma.notification.count({ where }),
-      prisma.notification.count({ where: { userId: auth.session.userId, read: false } }),
+      prisma.notification.count({ where: { ...where, read: false } }),
     ]);
 
     return json({ ...paginatedResponse(notifications, total, page, pageSize), unreadCount });
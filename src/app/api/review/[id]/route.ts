@@ -0,0 +1,107 @@
+// src/app/api/review/[id]/route.ts — Accept or reject a held edit
+
+import { NextRequest } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { isTrustedEditor, checkProtection, type PendingFields } from '@/lib/review';
+import { computeRevisionDiff, formatVersion, mergeRevisions } from '@/lib/versioning';
+import { getVersioningPolicy } from '@/lib/tags';
+import { AUTHOR_SELECT, PUBLISHED } from '@/lib/wiki';
+import { indexPage } from '@/lib/search-index';
+import { deliverWebhooks, metadataChanges } from '@/lib/webhooks';
+import type { Block } from '@/types/blocks';
+
+type Params = { id: string };
+
+export async function POST(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const { action } = await request.json() as { action?: 'accept' | 'reject' };
+    if (action !== 'accept' && action !== 'reject') return errors.badRequest('Action must be accept or reject');
+
+    const revision = await prisma.revision.findUnique({ where: { id }, include: { page: true } });
+    if (!revision || revision.status !== 'pending' || revision.page.deletedAt) return errors.notFound('No pending edit with that id');
+    const { page } = revision;
+
+    const auth = await requireAuth(request, { type: 'edit', tagPath: page.tagPath });
+    if ('error' in auth) return auth.error;
+    if (!(await isTrustedEditor(auth.session, page.tagPath))) return errors.forbidden('Only trusted editors can review edits here');
+    if (revision.authorId === auth.session.userId) return errors.forbidden('You cannot review your own edit');
+
+    const reviewed = { reviewedById: auth.session.userId, reviewedAt: new Date() };
+    const notify = (type: string) => prisma.notification.create({ data: { userId: revision.authorId, actorId: auth.session.userId, type, pageId: page.id } }).catch(() => {});
+
+    if (action === 'reject') {
+      await prisma.revision.update({ where: { id }, data: { status: 'rejected', ...reviewed } });
+      notify('edit_rejected');
+      return json({ success: true, status: 'rejected' });
+    }
+
+    // Protection set after the edit was held still applies: accepting publishes it as the reviewer.
+    const denied = await checkProtection(auth.session, page);
+    if (denied) return errors.forbidden(denied);
+
+    // The page may have moved on since the edit was held: replay it onto the head like a concurrent save.
+    const fields = (revision.pendingFields ?? { baseVersion: revision.version }) as unknown as PendingFields;
+    const head = (page.content as unknown as Block[]) || [];
+    let content = (revision.content as unknown as Block[]) || [];
+    let title = revision.title;
+    if (fields.baseVersion !== page.version) {
+      const base = await prisma.revision.findFirst({
+        where: { pageId: page.id, version: fields.baseVersion, ...PUBLISHED },
+        select: { content: true, title: true },
+        orderBy: { createdAt: 'desc' },
+      });
+      const result = base && mergeRevisions(
+        { content: (base.content as unknown as Block[]) || [], title: base.title },
+        { content: head, title: page.title },
+        { content, title },
+      );
+      if (!result || !result.ok) {
+        return errors.conflict('The page has changed the same blocks since this edit was submitted', { currentVersion: page.version, conflicts: result?.conflicts ?? [] });
+      }
+      content = result.content;
+      title = result.title;
+    }
+
+    const bannerImage = fields.bannerImage !== undefined ? fields.bannerImage : page.bannerImage;
+    const diff = computeRevisionDiff(page.version, head, content, page.title, title, page.bannerImage, bannerImage, { policy: getVersioningPolicy(page.tagPath) });
+    const version = formatVersion(diff.version);
+    const stored = content as unknown as Prisma.InputJsonValue;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.page.updateMany({
+        where: { id: page.id, version: page.version },
+        data: {
+          content: stored, title, bannerImage, version,
+          ...(fields.metadata !== undefined && { metadata: fields.metadata as unknown as Prisma.InputJsonValue }),
+        },
+      });
+      if (!count) return null;
+      await indexPage(tx, page.id);
+      // Enters the history when it goes live, so it sorts after everything it was merged onto.
+      await tx.revision.update({
+        where: { id },
+        data: {
+          status: 'published', content: stored, title, version, createdAt: new Date(), ...reviewed,
+          changeType: diff.changeType, changeRationale: diff.rationale,
+          changes: diff.changes as unknown as Prisma.InputJsonValue,
+        },
+      });
+      return tx.page.findUnique({ where: { id: page.id }, include: { author: AUTHOR_SELECT } });
+    });
+    if (!updated) return errors.conflict('The page was saved while accepting; try again', { currentVersion: null, conflicts: [] });
+
+    revalidateTag('wiki', { expire: 0 });
+    notify('edit_accepted');
+    const author = await prisma.user.findUnique({ where: { id: revision.authorId }, select: { displayName: true, radixAddress: true } });
+    if (author) {
+      deliverWebhooks('page.updated', { page: updated, revision: { changeType: diff.changeType, message: revision.message, version, previousVersion: page.version, changes: diff.changes }, actor: author });
+      const changes = fields.metadata !== undefined ? metadataChanges(page.metadata, fields.metadata) : [];
+      if (changes.length > 0) deliverWebhooks('metadata.changed', { page: updated, changes, actor: author });
+    }
+    return json({ success: true, status: 'published', version });
+  }, 'Failed to review edit');
+}
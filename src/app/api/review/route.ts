@@ -0,0 +1,19 @@
+// src/app/api/review/route.ts — The pending-changes queue
+
+import { NextRequest } from 'next/server';
+import { json, handleRoute } from '@/lib/api';
+import { getSession } from '@/lib/auth';
+import { getPendingRevisions, isTrustedEditor } from '@/lib/review';
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const session = await getSession(request);
+    const items = await getPendingRevisions();
+    // Anyone can see what is waiting; only editors trusted on that tag path get the buttons.
+    const trusted = new Map<string, boolean>();
+    for (const { page } of items) {
+      if (session && !trusted.has(page.tagPath)) trusted.set(page.tagPath, await isTrustedEditor(session, page.tagPath));
+    }
+    return json({ items: items.map(item => ({ ...item, canReview: trusted.get(item.page.tagPath) ?? false })) });
+  }, 'Failed to fetch review queue');
+}
@@ -0,0 +1,16 @@
+// src/app/api/search/log/[id]/route.ts — Record which result a logged search led to
+
+import { NextRequest } from 'next/server';
+import { json, errors, handleRoute, type RouteContext } from '@/lib/api';
+import { recordSearchClick } from '@/lib/search-log';
+
+type Params = { id: string };
+
+export async function POST(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const { pageId, rank } = await request.json() as { pageId?: unknown; rank?: unknown };
+    if (typeof pageId !== 'string' || !Number.isInteger(rank) || (rank as number) < 1) return errors.badRequest('pageId and a positive rank are required');
+    return json({ recorded: await recordSearchClick(id, pageId, rank as number) });
+  }, 'Failed to record search click');
+}
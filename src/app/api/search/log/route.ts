@@ -0,0 +1,13 @@
+// src/app/api/search/log/route.ts — Log a search a reader settled on (anonymously) for analytics
+
+import { NextRequest } from 'next/server';
+import { json, errors, handleRoute } from '@/lib/api';
+import { logSearch } from '@/lib/search-log';
+
+export async function POST(request: NextRequest) {
+  return handleRoute(async () => {
+    const { query } = await request.json() as { query?: unknown };
+    if (typeof query !== 'string') return errors.badRequest('query is required');
+    return json({ id: await logSearch(query) });
+  }, 'Failed to log search');
+}
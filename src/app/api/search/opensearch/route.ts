@@ -0,0 +1,31 @@
+// src/app/api/search/opensearch/route.ts — Address-bar suggestions in the OpenSearch suggestions format:
+// `[query, titles, descriptions, urls]`, ranked as /search ranks them.
+
+import { NextRequest } from 'next/server';
+import { cachedJson, handleRoute, CACHE } from '@/lib/api';
+import { prisma } from '@/lib/prisma/client';
+import { searchPageIds, orderByIds } from '@/lib/wiki';
+import { BASE_URL, getContentSnippet } from '@/lib/utils';
+
+const MIN_QUERY = 2;
+const SUGGESTION_LIMIT = 8;
+const HEADERS = { ...CACHE.medium, 'Content-Type': 'application/x-suggestions+json; charset=utf-8' };
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const query = (new URL(request.url).searchParams.get('q') ?? '').trim().slice(0, 100);
+    if (query.length < MIN_QUERY) return cachedJson([query, [], [], []], HEADERS);
+
+    const { ids } = await searchPageIds(query, { take: SUGGESTION_LIMIT });
+    const pages = orderByIds(await prisma.page.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, title: true, tagPath: true, slug: true, content: true },
+    }), ids);
+    return cachedJson([
+      query,
+      pages.map(p => p.title),
+      pages.map(p => getContentSnippet(p.content, 100)),
+      pages.map(p => `${BASE_URL}/${p.tagPath}/${p.slug}`),
+    ], HEADERS);
+  }, 'Failed to fetch suggestions');
+}
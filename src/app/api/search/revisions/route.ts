@@ -0,0 +1,20 @@
+// src/app/api/search/revisions/route.ts — Search page history, including deleted text, for signed-in editors
+
+import { NextRequest } from 'next/server';
+import { json, handleRoute, requireAuth, parsePagination, paginatedResponse } from '@/lib/api';
+import { searchRevisions } from '@/lib/wiki';
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') ?? '').trim();
+    const { page, pageSize } = parsePagination(searchParams, { pageSize: 25 });
+    const { hits, total } = query
+      ? await searchRevisions(query, auth.session, { skip: (page - 1) * pageSize, take: pageSize })
+      : { hits: [], total: 0 };
+    return json(paginatedResponse(hits, total, page, pageSize));
+  }, 'Failed to search page history');
+}
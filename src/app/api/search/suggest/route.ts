@@ -0,0 +1,18 @@
+// src/app/api/search/suggest/route.ts — Search-as-you-type: pages, categories and contributors for a typed prefix
+
+import { NextRequest } from 'next/server';
+import { cachedJson, handleRoute, CACHE } from '@/lib/api';
+import { getSearchSuggestions } from '@/lib/wiki';
+import type { SearchSuggestions } from '@/types';
+
+const MIN_PREFIX = 2;
+const EMPTY: SearchSuggestions = { pages: [], categories: [], users: [] };
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const prefix = (new URL(request.url).searchParams.get('q') ?? '').trim().toLowerCase().slice(0, 100);
+    if (prefix.length < MIN_PREFIX) return cachedJson(EMPTY, CACHE.long);
+    // Server-cached until the next write; the CDN holds each prefix a minute on top.
+    return cachedJson(await getSearchSuggestions(prefix), CACHE.medium);
+  }, 'Failed to fetch suggestions');
+}
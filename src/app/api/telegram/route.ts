@@ -2,9 +2,11 @@
 
 import { NextRequest } from 'next/server';
 import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute, requireAuth } from '@/lib/api';
 import { VALID_EVENTS, type WebhookEvent } from '@/lib/webhooks';
+import { parseWebhookFilters } from '@/lib/webhook-filters';
 
 const BOT_USERNAME = process.env.TELEGRAM_SUB_BOT_USERNAME;
 
@@ -33,10 +35,11 @@ export async function POST(request: NextRequest) {
     if ('error' in auth) return auth.error;
 
     const body = await request.json();
-    const { tagPath, pageSlug, events } = body as {
+    const { tagPath, pageSlug, events, filters } = body as {
       tagPath?: string;
       pageSlug?: string;
       events?: string[];
+      filters?: unknown;
     };
 
     // Check if already connected (has any TelegramLink)
@@ -68,6 +71,8 @@ export async function POST(request: NextRequest) {
       const invalid = events.filter((e) => !VALID_EVENTS.includes(e as WebhookEvent));
       if (invalid.length > 0) return errors.badRequest(`Invalid events: ${invalid.join(', ')}`);
     }
+    const parsed = filters !== undefined ? parseWebhookFilters(filters) : undefined;
+    if (parsed && 'error' in parsed) return errors.badRequest(parsed.error);
 
     const sub = await prisma.telegramLink.upsert({
       where: {
@@ -83,10 +88,12 @@ export async function POST(request: NextRequest) {
         tagPath,
         pageSlug: pageSlug || '',
         events: events ?? ['page.updated', 'comment.created'],
+        filters: (parsed?.filters ?? undefined) as Prisma.InputJsonValue | undefined,
         active: true,
       },
       update: {
         events: events ?? undefined,
+        ...(parsed && { filters: parsed.filters ? (parsed.filters as unknown as Prisma.InputJsonValue) : Prisma.DbNull }),
         active: true,
       },
     });
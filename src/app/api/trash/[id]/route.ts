@@ -0,0 +1,48 @@
+// src/app/api/trash/[id]/route.ts — Restore a deleted page, or purge it ahead of the retention window
+
+import { NextRequest } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { canRestore } from '@/lib/trash';
+import { isAdmin } from '@/lib/auth';
+import { deliverWebhooks } from '@/lib/webhooks';
+
+type Params = { id: string };
+
+async function findTrashed(id: string) {
+  return prisma.page.findFirst({ where: { id, deletedAt: { not: null } }, select: { id: true, tagPath: true, slug: true, title: true, version: true, metadata: true, authorId: true } });
+}
+
+export async function POST(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const page = await findTrashed(id);
+    if (!page) return errors.notFound('No deleted page with that id');
+    if (!canRestore(auth.session, page)) return errors.forbidden('Only the page author or an admin can restore it');
+
+    // The address stayed reserved while the page was in the trash, so it comes back exactly where it was.
+    await prisma.page.update({ where: { id }, data: { deletedAt: null, deletedById: null } });
+    revalidateTag('wiki', { expire: 0 });
+    deliverWebhooks('page.restored', { page, actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress } });
+    return json({ success: true, tagPath: page.tagPath, slug: page.slug });
+  }, 'Failed to restore page');
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+    if (!isAdmin(auth.session)) return errors.forbidden('Only admins can purge pages');
+
+    const page = await findTrashed(id);
+    if (!page) return errors.notFound('No deleted page with that id');
+
+    await prisma.page.delete({ where: { id } });
+    return json({ success: true });
+  }, 'Failed to purge page');
+}
@@ -0,0 +1,15 @@
+// src/app/api/trash/route.ts — Deleted pages the caller can restore
+
+import { NextRequest } from 'next/server';
+import { json, handleRoute, requireAuth } from '@/lib/api';
+import { getTrash, purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+export async function GET(request: NextRequest) {
+  return handleRoute(async () => {
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    await purgeExpiredTrash();
+    return json({ retentionDays: TRASH_RETENTION_DAYS, items: await getTrash(auth.session) });
+  }, 'Failed to fetch trash');
+}
@@ -1,6 +1,7 @@
 // src/app/api/users/[id]/stats/route.ts
 
 import { prisma } from '@/lib/prisma/client';
+import { LIVE } from '@/lib/wiki';
 import { json, errors, handleRoute, type RouteContext } from '@/lib/api';
 import { computePoints, totalPoints, ringScore } from '@/lib/scoring';
 
@@ -25,22 +26,22 @@ export async function GET(_request: Request, context: RouteContext<PathParams>)
           radixAddress: true,
           avatarUrl: true,
           createdAt: true,
-          _count: { select: { pages: true } },
+          _count: { select: { pages: { where: LIVE } } },
         },
       }),
       prisma.$queryRaw<AggRow[]>`
         SELECT
           COALESCE((
             SELECT COUNT(DISTINCT page_id || ':' || EXTRACT(EPOCH FROM date_trunc('hour', created_at))::BIGINT)
-            FROM revisions WHERE author_id = ${id}
+            FROM revisions WHERE author_id = ${id} AND status = 'published' AND page_id IN (SELECT id FROM pages WHERE deleted_at IS NULL)
           ), 0) AS edit_slots,
           COALESCE((
             SELECT COUNT(DISTINCT page_id)
-            FROM revisions WHERE author_id = ${id}
+            FROM revisions WHERE author_id = ${id} AND status = 'published' AND page_id IN (SELECT id FROM pages WHERE deleted_at IS NULL)
           ), 0) AS unique_pages,
           COALESCE((
             SELECT COUNT(DISTINCT page_id || ':' || EXTRACT(EPOCH FROM date_trunc('hour', created_at))::BIGINT)
-            FROM comments WHERE author_id = ${id}
+            FROM comments WHERE author_id = ${id} AND page_id IN (SELECT id FROM pages WHERE deleted_at IS NULL)
           ), 0) AS comment_slots
       `,
     ]);
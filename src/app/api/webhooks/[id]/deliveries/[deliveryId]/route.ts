@@ -0,0 +1,23 @@
+// src/app/api/webhooks/[id]/deliveries/[deliveryId]/route.ts — Redeliver a logged event
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { redeliver } from '@/lib/webhooks';
+
+type Params = { id: string; deliveryId: string };
+
+export async function POST(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id, deliveryId } = await context.params;
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId }, select: { webhookId: true, webhook: { select: { userId: true, active: true } } } });
+    if (!delivery || delivery.webhookId !== id) return errors.notFound('Delivery not found');
+    if (delivery.webhook.userId !== auth.session.userId) return errors.forbidden();
+    if (!delivery.webhook.active) return errors.conflict('Turn the webhook back on to redeliver');
+
+    return json(await redeliver(deliveryId), 201);
+  }, 'Failed to redeliver webhook');
+}
@@ -0,0 +1,33 @@
+// src/app/api/webhooks/[id]/deliveries/route.ts — A webhook's delivery log, newest first
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, parsePagination, paginatedResponse, type RouteContext } from '@/lib/api';
+import { DELIVERY_SELECT } from '@/lib/webhooks';
+
+type Params = { id: string };
+
+export async function GET(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id }, select: { userId: true } });
+    if (!webhook) return errors.notFound('Webhook not found');
+    if (webhook.userId !== auth.session.userId) return errors.forbidden();
+
+    const { page, pageSize } = parsePagination(new URL(request.url).searchParams, { pageSize: 20 });
+    const [items, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where: { webhookId: id },
+        select: DELIVERY_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.webhookDelivery.count({ where: { webhookId: id } }),
+    ]);
+    return json(paginatedResponse(items, total, page, pageSize));
+  }, 'Failed to fetch webhook deliveries');
+}
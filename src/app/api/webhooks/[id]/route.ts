@@ -1,11 +1,48 @@
 // src/app/api/webhooks/[id]/route.ts
 
 import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { maskSecret, WEBHOOK_OMIT } from '@/lib/webhooks';
+import { parseWebhookFilters } from '@/lib/webhook-filters';
 
 type Params = { id: string };
 
+/** Pause or resume a webhook, turn its block diff on or off, or replace its filters. Resuming one that failures switched off gives it a clean slate. */
+export async function PATCH(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    if (!id) return errors.badRequest('Webhook ID required');
+
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) return errors.notFound('Webhook not found');
+    if (webhook.userId !== auth.session.userId) return errors.forbidden();
+
+    const body = await request.json() as { active?: unknown; includeDiff?: unknown; filters?: unknown };
+    const { active, includeDiff } = body;
+    if (active !== undefined && typeof active !== 'boolean') return errors.badRequest('active must be true or false');
+    if (includeDiff !== undefined && typeof includeDiff !== 'boolean') return errors.badRequest('includeDiff must be true or false');
+    const parsed = 'filters' in body ? parseWebhookFilters(body.filters) : undefined;
+    if (parsed && 'error' in parsed) return errors.badRequest(parsed.error);
+    if (active === undefined && includeDiff === undefined && !parsed) return errors.badRequest('active, includeDiff or filters is required');
+
+    const updated = await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...(active !== undefined && (active ? { active, failureCount: 0, disabledAt: null } : { active })),
+        ...(includeDiff !== undefined && { includeDiff }),
+        ...(parsed && { filters: parsed.filters ? (parsed.filters as unknown as Prisma.InputJsonValue) : Prisma.DbNull }),
+      },
+      omit: WEBHOOK_OMIT,
+    });
+    return json(maskSecret(updated));
+  }, 'Failed to update webhook');
+}
+
 export async function DELETE(request: NextRequest, context: RouteContext<Params>) {
   return handleRoute(async () => {
     const { id } = await context.params;
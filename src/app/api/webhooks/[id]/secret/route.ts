@@ -0,0 +1,23 @@
+// src/app/api/webhooks/[id]/secret/route.ts — Rotate a webhook's signing secret, with an overlap window
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma/client';
+import { json, errors, handleRoute, requireAuth, type RouteContext } from '@/lib/api';
+import { rotateWebhookSecret } from '@/lib/webhooks';
+
+type Params = { id: string };
+
+/** The new secret is returned here once, as on creation; the old one signs too until `previousSecretExpiresAt`. */
+export async function POST(request: NextRequest, context: RouteContext<Params>) {
+  return handleRoute(async () => {
+    const { id } = await context.params;
+    const auth = await requireAuth(request);
+    if ('error' in auth) return auth.error;
+
+    const webhook = await prisma.webhook.findUnique({ where: { id }, select: { userId: true } });
+    if (!webhook) return errors.notFound('Webhook not found');
+    if (webhook.userId !== auth.session.userId) return errors.forbidden();
+
+    return json(await rotateWebhookSecret(id));
+  }, 'Failed to rotate webhook secret');
+}
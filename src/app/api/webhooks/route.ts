@@ -1,9 +1,11 @@
 // src/app/api/webhooks/route.ts
 
 import { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute, requireAuth } from '@/lib/api';
-import { generateWebhookSecret, VALID_EVENTS, type WebhookEvent } from '@/lib/webhooks';
+import { generateWebhookSecret, maskSecret, WEBHOOK_OMIT, VALID_EVENTS, type WebhookEvent } from '@/lib/webhooks';
+import { parseWebhookFilters } from '@/lib/webhook-filters';
 
 export async function GET(request: NextRequest) {
   return handleRoute(async () => {
@@ -13,14 +15,10 @@ export async function GET(request: NextRequest) {
     const webhooks = await prisma.webhook.findMany({
       where: { userId: auth.session.userId },
       orderBy: { createdAt: 'desc' },
+      omit: WEBHOOK_OMIT,
     });
 
-    return json(
-      webhooks.map((w) => ({
-        ...w,
-        secret: `...${w.secret.slice(-8)}`,
-      })),
-    );
+    return json(webhooks.map(maskSecret));
   }, 'Failed to list webhooks');
 }
 
@@ -30,10 +28,12 @@ export async function POST(request: NextRequest) {
     if ('error' in auth) return auth.error;
 
     const body = await request.json();
-    const { url, events, tagPathFilter } = body as {
+    const { url, events, tagPathFilter, includeDiff, filters } = body as {
       url?: string;
       events?: string[];
       tagPathFilter?: string;
+      includeDiff?: boolean;
+      filters?: unknown;
     };
 
     if (!url || !url.startsWith('https://')) {
@@ -49,6 +49,9 @@ export async function POST(request: NextRequest) {
       return errors.badRequest(`Invalid events: ${invalidEvents.join(', ')}. Valid: ${VALID_EVENTS.join(', ')}`);
     }
 
+    const parsed = parseWebhookFilters(filters);
+    if ('error' in parsed) return errors.badRequest(parsed.error);
+
     const count = await prisma.webhook.count({ where: { userId: auth.session.userId } });
     if (count >= 10) {
       return errors.badRequest('Maximum 10 webhooks per user');
@@ -61,6 +64,8 @@ export async function POST(request: NextRequest) {
         secret: generateWebhookSecret(),
         events,
         tagPathFilter: tagPathFilter || null,
+        includeDiff: includeDiff === true,
+        filters: (parsed.filters ?? undefined) as Prisma.InputJsonValue | undefined,
       },
     });
 
@@ -5,19 +5,37 @@ import { revalidateTag } from 'next/cache';
 import { prisma } from '@/lib/prisma/client';
 import { Prisma } from '@prisma/client';
 import { slugify } from '@/lib/utils';
-import { isValidTagPath, isAuthorOnlyPath, isLockedPage, canEditAuthorOnlyPage, getMetadataKeys } from '@/lib/tags';
+import { isValidTagPath, isAuthorOnlyPath, canEditAuthorOnlyPage, getMetadataKeys, getVersioningPolicy } from '@/lib/tags';
 import { json, errors, handleRoute, requireAuth, parsePagination, paginatedResponse, cachedJson, CACHE, type RouteContext } from '@/lib/api';
-import { computeRevisionDiff, formatVersion, parseVersion, incrementVersion, type BlockChange } from '@/lib/versioning';
-import { parsePath, orderByIds, searchPageIds, AUTHOR_SELECT, PAGE_INCLUDE, PAGE_LIST_SELECT } from '@/lib/wiki';
+import { computeRevisionDiff, formatVersion, parseVersion, incrementVersion, mergeRevisions, revertBlock, type BlockChange } from '@/lib/versioning';
+import { parsePath, orderByIds, searchPageIds, semanticSearchPageIds, searchFacets, getRevisionComparison, getPageBlame, AUTHOR_SELECT, PUBLISHED, LIVE, PAGE_INCLUDE, PAGE_LIST_SELECT } from '@/lib/wiki';
+import { indexPage } from '@/lib/search-index';
 import { validateBlocks } from '@/lib/block-utils';
+import { searchFacetFilters } from '@/lib/taxonomy';
 import { blocksToMdx } from '@/lib/mdx';
 import type { WikiPageInput } from '@/types';
 import type { Block } from '@/types/blocks';
-import { deliverWebhooks } from '@/lib/webhooks';
+import { deliverWebhooks, metadataChanges } from '@/lib/webhooks';
+import { isTrustedEditor, checkProtection, type PendingFields } from '@/lib/review';
+import { activeProtection, PROTECTION_SELECT } from '@/lib/protection';
+import { rewriteInboundLinks } from '@/lib/redirects';
+import { requireBalance } from '@/lib/radix/balance';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
 
 type PathParams = { path?: string[] };
 
-
+type HeldRevision = Pick<Prisma.RevisionUncheckedCreateInput, 'title' | 'content' | 'changeType' | 'changeRationale' | 'changes' | 'authorId' | 'message'>;
+
+/** Below the tag path's review bar an edit is stored as a held revision and the live page is left alone. */
+async function holdForReview(page: { id: string; version: string; tagPath: string; slug: string }, revision: HeldRevision, pendingFields: PendingFields) {
+  const pending = await prisma.revision.create({
+    data: {
+      ...revision, pageId: page.id, version: page.version,
+      status: 'pending', pendingFields: pendingFields as unknown as Prisma.InputJsonValue,
+    },
+  });
+  return json({ pending: true, revisionId: pending.id, tagPath: page.tagPath, slug: page.slug }, 202);
+}
 
 export async function GET(request: NextRequest, context: RouteContext<PathParams>) {
   const { path } = await context.params;
@@ -27,7 +45,7 @@ export async function GET(request: NextRequest, context: RouteContext<PathParams
   if (parsed.type === 'mdx') {
     try {
       const page = await prisma.page.findUnique({
-        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } },
+        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE },
         include: { author: AUTHOR_SELECT },
       });
       if (!page) return errors.notFound('Page not found');
@@ -57,14 +75,26 @@ export async function GET(request: NextRequest, context: RouteContext<PathParams
       const tagPath = searchParams.get('tagPath');
       const sort = searchParams.get('sort') || 'updatedAt';
 
-      const where: Prisma.PageWhereInput = {};
+      const where: Prisma.PageWhereInput = { ...LIVE };
       if (tagPath) where.tagPath = tagPath;
 
       if (search) {
         // Titles rank ahead of body prose; the homepage row (empty slug) is chrome, not content.
-        const { ids, total } = await searchPageIds(search, { tagPath, skip: (page - 1) * pageSize, take: pageSize });
-        const matches = ids.length ? await prisma.page.findMany({ where: { id: { in: ids } }, select: PAGE_LIST_SELECT }) : [];
-        return cachedJson(paginatedResponse(orderByIds(matches, ids), total, page, pageSize));
+        // `mode=semantic` ranks by meaning (lib/embeddings.ts) — `lexical` in the response flags the default
+        // provider, which matches word forms only; facets count keyword hits, so only keyword mode has them.
+        const filters = searchFacetFilters(Object.fromEntries(searchParams));
+        const semantic = searchParams.get('mode') === 'semantic';
+        const options = { tagPath, filters, skip: (page - 1) * pageSize, take: pageSize };
+        const [{ ids, total, fuzzy, suggestion, passages, lexical }, facets] = await Promise.all([
+          semantic ? semanticSearchPageIds(search, options) : searchPageIds(search, options),
+          searchParams.get('facets') === '1' && !semantic ? searchFacets(search, { tagPath, filters }) : null,
+        ]);
+        const matches = ids.length ? await prisma.page.findMany({ where: { id: { in: ids }, ...LIVE }, select: PAGE_LIST_SELECT }) : [];
+        const items = orderByIds(matches, ids).map(p => (passages?.[p.id] ? { ...p, passage: passages[p.id] } : p));
+        return cachedJson({
+          ...paginatedResponse(items, total, page, pageSize),
+          ...(facets && { facets }), ...(fuzzy && { fuzzy }), ...(suggestion && { suggestion }), ...(lexical && { lexical }),
+        });
       }
 
       const orderBy = sort === 'title' ? { title: 'asc' as const } : { updatedAt: 'desc' as const };
@@ -88,15 +118,25 @@ export async function GET(request: NextRequest, context: RouteContext<PathParams
     // History mode
     if (parsed.type === 'history') {
       const page = await prisma.page.findUnique({
-        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } },
+        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE },
         select: { id: true, version: true },
       });
       if (!page) return errors.notFound('Page not found');
 
+      // Compare mode: ?from=<revId>&to=<revId>
+      const from = searchParams.get('from');
+      const to = searchParams.get('to');
+      if (from || to) {
+        if (!from || !to) return errors.badRequest('Both from and to revision ids are required');
+        const comparison = await getRevisionComparison(parsed.tagPath, parsed.slug, from, to);
+        if (!comparison) return errors.notFound('Revision not found');
+        return cachedJson(comparison);
+      }
+
       const revisions = await prisma.revision.findMany({
-        where: { pageId: page.id },
+        where: { pageId: page.id, ...PUBLISHED },
         select: {
-          id: true, title: true, version: true, changeType: true,
+          id: true, title: true, version: true, changeType: true, changeRationale: true,
           changes: true, content: true, message: true, createdAt: true,
           author: AUTHOR_SELECT,
         },
@@ -124,9 +164,16 @@ export async function GET(request: NextRequest, context: RouteContext<PathParams
       return cachedJson({ currentVersion: page.version, revisions: backfilled });
     }
 
+    // Blame mode
+    if (parsed.type === 'blame') {
+      const blame = await getPageBlame(parsed.tagPath, parsed.slug);
+      if (!blame) return errors.notFound('Page not found');
+      return cachedJson(blame);
+    }
+
     // Homepage or specific page
     const page = await prisma.page.findUnique({
-      where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } },
+      where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE },
       include: PAGE_INCLUDE,
     });
 
@@ -164,8 +211,8 @@ export async function POST(request: NextRequest, context: RouteContext<PathParam
       if ('error' in auth) return auth.error;
 
       const page = await prisma.page.findUnique({
-        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } },
-        select: { id: true, title: true, content: true, bannerImage: true, version: true, authorId: true, editorIds: true, tagPath: true },
+        where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE },
+        select: { id: true, title: true, content: true, bannerImage: true, version: true, metadata: true, authorId: true, editorIds: true, ...PROTECTION_SELECT },
       });
       if (!page) return errors.notFound('Page not found');
 
@@ -173,35 +220,111 @@ export async function POST(request: NextRequest, context: RouteContext<PathParam
         return errors.forbidden('You can only restore your own pages in this category');
       }
 
-      if (isLockedPage(page.tagPath, parsed.slug)) {
-        return errors.forbidden('This page is locked and cannot be modified');
-      }
+      const denied = await checkProtection(auth.session, page);
+      if (denied) return errors.forbidden(denied);
+      const trusted = await isTrustedEditor(auth.session, page.tagPath);
+      const actor = { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress };
 
-      const { revisionId } = await request.json();
+      const { revisionId, blockId } = await request.json();
       if (!revisionId) return errors.badRequest('Revision ID required');
 
-      const revision = await prisma.revision.findFirst({ where: { id: revisionId, pageId: page.id } });
+      const revision = await prisma.revision.findFirst({ where: { id: revisionId, pageId: page.id, ...PUBLISHED } });
       if (!revision) return errors.notFound('Revision not found');
 
+      // Undo one block's change from that revision, replayed onto the current head
+      if (blockId) {
+        const previous = await prisma.revision.findFirst({
+          where: { pageId: page.id, ...PUBLISHED, createdAt: { lt: revision.createdAt } },
+          select: { content: true },
+          orderBy: { createdAt: 'desc' },
+        });
+        const after = (revision.content as unknown as Block[]) || [];
+        const before = (previous?.content as unknown as Block[]) || [];
+        const change = computeRevisionDiff(null, before, after, revision.title, revision.title, null, null).changes.find(c => c.id === blockId);
+        if (!change) return errors.badRequest('That block was not changed in this revision');
+
+        const reverted = revertBlock(before, after, blockId);
+        const head = (page.content as unknown as Block[]) || [];
+        const result = reverted && mergeRevisions(
+          { content: after, title: revision.title },
+          { content: head, title: page.title },
+          { content: reverted, title: revision.title },
+        );
+        if (!result || !result.ok) {
+          return errors.conflict('This block has changed since that revision; edit the page to undo it by hand', { currentVersion: page.version, conflicts: result?.conflicts ?? [] });
+        }
+
+        const diff = computeRevisionDiff(page.version, head, result.content, page.title, page.title, null, null, { policy: getVersioningPolicy(page.tagPath) });
+        if (diff.changeType === 'none') return errors.badRequest('That change is no longer on the page');
+        const version = formatVersion(diff.version);
+        const content = result.content as unknown as Prisma.InputJsonValue;
+        const message = `Undid ${change.action === 'modified' ? 'edit to' : change.action === 'moved' ? 'move of' : change.action === 'added' ? 'addition of' : 'removal of'} ${change.type} block from v${revision.version}`;
+
+        if (!trusted) {
+          return holdForReview(page, {
+            title: page.title, content, changeType: diff.changeType, changeRationale: diff.rationale,
+            changes: diff.changes as unknown as Prisma.InputJsonValue, authorId: auth.session.userId, message,
+          }, { baseVersion: page.version });
+        }
+
+        const saved = await prisma.$transaction(async (tx) => {
+          const { count } = await tx.page.updateMany({ where: { id: page.id, version: page.version }, data: { content, version } });
+          if (!count) return false;
+          await indexPage(tx, page.id);
+          await tx.revision.create({
+            data: {
+              pageId: page.id, title: page.title, content, version, changeType: diff.changeType, changeRationale: diff.rationale,
+              changes: diff.changes as unknown as Prisma.InputJsonValue,
+              authorId: auth.session.userId, message,
+            },
+          });
+          return true;
+        });
+        if (!saved) return errors.conflict('This page was saved by someone else while undoing', { currentVersion: null, conflicts: [] });
+
+        revalidateTag('wiki', { expire: 0 });
+        deliverWebhooks('page.updated', {
+          page: { ...page, version },
+          revision: { changeType: diff.changeType, message, version, previousVersion: page.version, changes: diff.changes },
+          actor,
+        });
+        return json({ success: true, version, message });
+      }
+
       const newVersion = incrementVersion(parseVersion(page.version), 'major');
       const content = revision.content as Prisma.InputJsonValue;
+      const message = `Restored to v${revision.version}`;
+      const changeRationale = 'Restoring a revision is always major';
+
+      if (!trusted) {
+        return holdForReview(page, {
+          title: revision.title, content, changeType: 'major', changeRationale,
+          changes: [] as unknown as Prisma.InputJsonValue, authorId: auth.session.userId, message,
+        }, { baseVersion: page.version });
+      }
 
       await prisma.$transaction([
         prisma.page.update({
           where: { id: page.id },
           data: { title: revision.title, content, version: formatVersion(newVersion) },
         }),
+        indexPage(prisma, page.id),
         prisma.revision.create({
           data: {
             pageId: page.id, title: revision.title, content,
-            version: formatVersion(newVersion), changeType: 'major',
+            version: formatVersion(newVersion), changeType: 'major', changeRationale,
             changes: [] as unknown as Prisma.InputJsonValue,
-            authorId: auth.session.userId, message: `Restored to v${revision.version}`,
+            authorId: auth.session.userId, message,
           },
         }),
       ]);
 
       revalidateTag('wiki', { expire: 0 });
+      deliverWebhooks('page.updated', {
+        page: { ...page, title: revision.title, version: formatVersion(newVersion) },
+        revision: { changeType: 'major', message, version: formatVersion(newVersion), previousVersion: page.version, changes: [] },
+        actor,
+      });
       return json({ success: true, version: formatVersion(newVersion) });
     }
 
@@ -242,6 +365,7 @@ export async function POST(request: NextRequest, context: RouteContext<PathParam
         },
         include: { author: AUTHOR_SELECT },
       });
+      await indexPage(tx, p.id);
       await tx.revision.create({
         data: {
           pageId: p.id, title,
@@ -254,9 +378,9 @@ export async function POST(request: NextRequest, context: RouteContext<PathParam
       return p;
     });
 
-    const priorRevisions = await prisma.revision.count({ where: { authorId: auth.session.userId } });
+    const priorRevisions = await prisma.revision.count({ where: { authorId: auth.session.userId, ...PUBLISHED } });
     revalidateTag('wiki', { expire: 0 });
-    deliverWebhooks('page.created', page, { changeType: 'major', message: 'Initial version', version: initialVersion }, { displayName: page.author?.displayName ?? null, radixAddress: auth.session.radixAddress });
+    deliverWebhooks('page.created', { page, revision: { changeType: 'major', message: 'Initial version', version: initialVersion }, actor: { displayName: page.author?.displayName ?? null, radixAddress: auth.session.radixAddress } });
     return json({ ...page, isFirstContribution: priorRevisions === 1 }, 201);
   }, 'Failed to create');
 }
@@ -266,19 +390,20 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
     const { path } = await context.params;
     const parsed = parsePath(path, 'api');
 
-    if (parsed.type === 'invalid' || parsed.type === 'history') return errors.notFound('Invalid path');
+    if (parsed.type === 'invalid' || parsed.type === 'history' || parsed.type === 'blame') return errors.notFound('Invalid path');
 
     const auth = await requireAuth(request, { type: 'edit', tagPath: parsed.tagPath });
     if ('error' in auth) return auth.error;
 
-    const body: Partial<WikiPageInput> & { revisionMessage?: string; newSlug?: string; editorIds?: string[] } = await request.json();
-    const { title, content, bannerImage, metadata, revisionMessage, newSlug, editorIds } = body;
+    const body: Partial<WikiPageInput> & { revisionMessage?: string; newSlug?: string; newTagPath?: string; rewriteLinks?: boolean; editorIds?: string[]; baseVersion?: string; minorEdit?: boolean } = await request.json();
+    const { bannerImage, metadata, revisionMessage, newSlug, newTagPath, rewriteLinks, editorIds, baseVersion, minorEdit } = body;
+    let { title, content } = body;
 
     if (content !== undefined && !validateBlocks(content)) {
       return errors.badRequest('Invalid block structure');
     }
 
-    const existing = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } } });
+    const existing = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE } });
 
     // Homepage creation if it doesn't exist
     if (!existing && parsed.type === 'homepage') {
@@ -293,6 +418,7 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
             bannerImage, version: initialVersion, authorId: auth.session.userId,
           },
         });
+        await indexPage(tx, p.id);
         await tx.revision.create({
           data: {
             pageId: p.id, title: title || 'Homepage',
@@ -311,9 +437,22 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
 
     if (!existing) return errors.notFound('Page not found');
 
+    // A move: new slug, new tag path, or both. The old address is kept as a redirect.
     const slugUpdate = newSlug && newSlug !== existing.slug ? slugify(newSlug) : undefined;
-    if (slugUpdate) {
-      const conflict = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath: existing.tagPath, slug: slugUpdate } } });
+    const tagPathUpdate = newTagPath !== undefined && newTagPath !== existing.tagPath ? newTagPath : undefined;
+    const isMove = !!(slugUpdate || tagPathUpdate);
+    const target = { tagPath: tagPathUpdate ?? existing.tagPath, slug: slugUpdate ?? existing.slug };
+    if (tagPathUpdate !== undefined) {
+      if (parsed.type === 'homepage') return errors.badRequest('The homepage cannot be moved');
+      if (!tagPathUpdate || !isValidTagPath(tagPathUpdate.split('/'))) return errors.badRequest('Valid tag path required');
+      if (isAuthorOnlyPath(tagPathUpdate) && existing.authorId !== auth.session.userId) {
+        return errors.forbidden('Only the page author can move it into this category');
+      }
+      const check = await requireBalance(auth.session, { type: 'create', tagPath: tagPathUpdate });
+      if (!check.ok) return check.response;
+    }
+    if (isMove) {
+      const conflict = await prisma.page.findUnique({ where: { tagPath_slug: target } });
       if (conflict) return errors.badRequest('A page with that slug already exists in this category');
     }
 
@@ -321,12 +460,36 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
       return errors.forbidden('You can only edit your own pages in this category');
     }
 
-    if (isLockedPage(existing.tagPath, existing.slug)) {
-      return errors.forbidden('This page is locked and cannot be edited');
+    const denied = await checkProtection(auth.session, existing);
+    if (denied) return errors.forbidden(denied);
+
+    // Someone saved since this edit was loaded: replay it onto the head instead of overwriting theirs.
+    let merged = false;
+    if (baseVersion && baseVersion !== existing.version && (content || title)) {
+      const base = await prisma.revision.findFirst({
+        where: { pageId: existing.id, version: baseVersion, ...PUBLISHED },
+        select: { content: true, title: true },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!base) return errors.conflict(`Version ${baseVersion} is not in this page's history`, { currentVersion: existing.version, conflicts: [] });
+
+      const baseContent = (base.content as unknown as Block[]) || [];
+      const result = mergeRevisions(
+        { content: baseContent, title: base.title },
+        { content: (existing.content as unknown as Block[]) || [], title: existing.title },
+        { content: (content as unknown as Block[]) || baseContent, title: title || base.title },
+      );
+      if (!result.ok) {
+        return errors.conflict(`This page was edited since v${baseVersion} and both edits changed the same blocks`, { currentVersion: existing.version, conflicts: result.conflicts });
+      }
+      content = result.content as unknown as Prisma.JsonValue;
+      title = result.title;
+      merged = true;
     }
 
     let newVersion = existing.version;
     let changeType: string = 'patch';
+    let changeRationale: string | null = null;
     let changes: BlockChange[] = [];
 
     if (content || title) {
@@ -336,11 +499,13 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
       const diff = computeRevisionDiff(
         existing.version, oldContent, newContent,
         existing.title, title || existing.title,
-        existing.bannerImage, bannerImage ?? existing.bannerImage
+        existing.bannerImage, bannerImage ?? existing.bannerImage,
+        { policy: getVersioningPolicy(existing.tagPath), minorEdit: minorEdit === true },
       );
 
       newVersion = formatVersion(diff.version);
       changeType = diff.changeType;
+      changeRationale = diff.rationale;
       changes = diff.changes;
     }
 
@@ -353,11 +518,35 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
       }
     }
 
+    if (tagPathUpdate && !(await isTrustedEditor(auth.session, tagPathUpdate))) {
+      return errors.forbidden('Moving pages into this category needs a trusted editor');
+    }
+
+    // Pending changes: below the tag path's review bar the edit is held rather than published.
+    if (!(await isTrustedEditor(auth.session, existing.tagPath))) {
+      if (isMove) return errors.forbidden('Moving pages here needs a trusted editor');
+      const pendingFields: PendingFields = {
+        baseVersion: existing.version,
+        ...(metadata !== undefined && JSON.stringify(metadata) !== JSON.stringify(existing.metadata) && { metadata }),
+        ...(bannerImage !== undefined && bannerImage !== existing.bannerImage && { bannerImage }),
+      };
+      return holdForReview(existing, {
+        title: title || existing.title,
+        content: (content ?? existing.content) as Prisma.InputJsonValue,
+        changeType, changeRationale,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        authorId: auth.session.userId, message: revisionMessage,
+      }, pendingFields);
+    }
+
+    const metadataChanged = metadata !== undefined ? metadataChanges(existing.metadata, metadata) : [];
+
+    // Guarding on the version read above turns a save that raced another into a conflict, not a silent overwrite.
     const page = await prisma.$transaction(async (tx) => {
       const p = await tx.page.update({
-        where: { id: existing.id },
+        where: { id: existing.id, version: existing.version },
         data: {
-          title: title ?? undefined, slug: slugUpdate ?? undefined,
+          title: title ?? undefined, slug: slugUpdate ?? undefined, tagPath: tagPathUpdate ?? undefined,
           content: content !== undefined ? (content as unknown as Prisma.InputJsonValue) : undefined,
           bannerImage: bannerImage ?? undefined,
           metadata: metadata !== undefined ? (metadata as unknown as Prisma.InputJsonValue) : undefined,
@@ -366,31 +555,58 @@ export async function PUT(request: NextRequest, context: RouteContext<PathParams
         },
         include: { author: AUTHOR_SELECT },
       });
+      await indexPage(tx, p.id);
 
       if (content || title) {
         await tx.revision.create({
           data: {
             pageId: p.id, title: title || existing.title,
             content: content ? (content as unknown as Prisma.InputJsonValue) : (existing.content as Prisma.InputJsonValue),
-            version: newVersion, changeType,
+            version: newVersion, changeType, changeRationale,
             changes: changes as unknown as Prisma.InputJsonValue,
             authorId: auth.session.userId, message: revisionMessage,
           },
         });
       }
 
+      if (isMove) {
+        // The new address may itself be an old redirect (e.g. a move back); the page now lives there.
+        await tx.redirect.deleteMany({ where: { fromTagPath: target.tagPath, fromSlug: target.slug } });
+        await tx.redirect.upsert({
+          where: { fromTagPath_fromSlug: { fromTagPath: existing.tagPath, fromSlug: existing.slug } },
+          create: { fromTagPath: existing.tagPath, fromSlug: existing.slug, pageId: p.id, createdById: auth.session.userId },
+          update: { pageId: p.id, createdById: auth.session.userId },
+        });
+        // Open drafts follow the page, except where their owner already has one at the new address.
+        const taken = await tx.draft.findMany({ where: target, select: { userId: true } });
+        await tx.draft.updateMany({
+          where: { tagPath: existing.tagPath, slug: existing.slug, userId: { notIn: taken.map(d => d.userId) } },
+          data: target,
+        });
+      }
+
       return p;
+    }).catch((error: unknown) => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return null;
+      throw error;
     });
+    if (!page) return errors.conflict('This page was saved by someone else while your edit was being saved', { currentVersion: null, conflicts: [] });
 
     if (existing.authorId !== auth.session.userId) {
       prisma.notification.create({ data: { userId: existing.authorId, actorId: auth.session.userId, type: 'page_edited', pageId: existing.id } }).catch(() => {});
     }
-    const totalRevisions = await prisma.revision.count({ where: { authorId: auth.session.userId } });
+    const linksRewritten = isMove && rewriteLinks
+      ? await rewriteInboundLinks(`/${existing.tagPath}/${existing.slug}`, `/${page.tagPath}/${page.slug}`, auth.session)
+      : undefined;
+    const totalRevisions = await prisma.revision.count({ where: { authorId: auth.session.userId, ...PUBLISHED } });
     revalidateTag('wiki', { expire: 0 });
+    const actor = { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress };
     if (content || title) {
-      deliverWebhooks('page.updated', page, { changeType, message: revisionMessage ?? null, version: newVersion }, { displayName: page.author?.displayName ?? null, radixAddress: auth.session.radixAddress });
+      deliverWebhooks('page.updated', { page, revision: { changeType, message: revisionMessage ?? null, version: newVersion, previousVersion: existing.version, changes }, actor });
     }
-    return json({ ...page, isFirstContribution: totalRevisions === 1 });
+    if (isMove) deliverWebhooks('page.moved', { page, from: { tagPath: existing.tagPath, slug: existing.slug }, actor });
+    if (metadataChanged.length > 0) deliverWebhooks('metadata.changed', { page, changes: metadataChanged, actor });
+    return json({ ...page, isFirstContribution: totalRevisions === 1, ...(merged && { merged: true }), ...(linksRewritten && { linksRewritten }) });
   }, 'Failed to update');
 }
 
@@ -404,14 +620,16 @@ export async function DELETE(request: NextRequest, context: RouteContext<PathPar
     const auth = await requireAuth(request);
     if ('error' in auth) return auth.error;
 
-    const existing = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug } } });
+    const existing = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath: parsed.tagPath, slug: parsed.slug }, ...LIVE } });
     if (!existing) return errors.notFound('Page not found');
     if (existing.authorId !== auth.session.userId) return errors.forbidden();
-    if (isLockedPage(existing.tagPath, existing.slug)) return errors.forbidden('This page is locked and cannot be deleted');
+    if (activeProtection(existing)?.level === 'locked') return errors.forbidden('This page is locked and cannot be deleted');
 
-    await prisma.page.delete({ where: { id: existing.id } });
+    // Into the trash, not gone: history and comments stay attached until the retention window lapses.
+    await prisma.page.update({ where: { id: existing.id }, data: { deletedAt: new Date(), deletedById: auth.session.userId } });
+    purgeExpiredTrash().catch(() => {});
     revalidateTag('wiki', { expire: 0 });
-    deliverWebhooks('page.deleted', existing, null, { displayName: null, radixAddress: auth.session.radixAddress });
-    return json({ success: true });
+    deliverWebhooks('page.deleted', { page: existing, actor: { displayName: auth.session.displayName ?? null, radixAddress: auth.session.radixAddress } });
+    return json({ success: true, trashed: true, purgeAfterDays: TRASH_RETENTION_DAYS });
   }, 'Failed to delete');
 }
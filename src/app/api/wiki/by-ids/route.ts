@@ -3,7 +3,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
 import { json, errors, handleRoute } from '@/lib/api';
-import { AUTHOR_SELECT } from '@/lib/wiki';
+import { AUTHOR_SELECT, LIVE } from '@/lib/wiki';
 
 export async function GET(request: NextRequest) {
   return handleRoute(async () => {
@@ -12,7 +12,7 @@ export async function GET(request: NextRequest) {
     if (ids.length > 50) return errors.badRequest('Maximum 50 IDs per request');
 
     const pages = await prisma.page.findMany({
-      where: { id: { in: ids } },
+      where: { id: { in: ids }, ...LIVE },
       select: {
         id: true, slug: true, title: true, content: true, bannerImage: true,
         tagPath: true, metadata: true, version: true, createdAt: true, updatedAt: true,
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
+import { LIVE } from '@/lib/wiki';
 import { BASE_URL, getContentSnippet } from '@/lib/utils';
 import { ogImageUrl } from '@/lib/og';
 
@@ -28,7 +29,7 @@ function publishedAt(metadata: unknown, createdAt: Date): Date {
 
 export async function GET() {
   const posts = await prisma.page.findMany({
-    where: { tagPath: 'blog' },
+    where: { tagPath: 'blog', ...LIVE },
     select: { slug: true, title: true, content: true, metadata: true, bannerImage: true, createdAt: true, updatedAt: true },
   });
 
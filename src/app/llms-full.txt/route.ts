@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
+import { LIVE } from '@/lib/wiki';
 import { BASE_URL, getContentSnippet } from '@/lib/utils';
 import { extractText } from '@/lib/content';
 import type { Block } from '@/types/blocks';
@@ -18,6 +19,7 @@ function cleanExcerpt(s: string): string {
 
 export async function GET() {
   const pages = await prisma.page.findMany({
+    where: LIVE,
     select: { title: true, tagPath: true, slug: true, content: true, updatedAt: true },
     orderBy: { updatedAt: 'desc' },
   });
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma/client';
+import { LIVE } from '@/lib/wiki';
 import { TAG_HIERARCHY, type TagNode } from '@/lib/tags';
 import { CHARTS_PAGES } from '@/lib/static-pages';
 import { BASE_URL, getContentSnippet } from '@/lib/utils';
@@ -150,6 +151,7 @@ content programmatically. No browser or wallet extension required.
 
 export async function GET() {
   const pages = await prisma.page.findMany({
+    where: LIVE,
     select: { title: true, tagPath: true, slug: true, content: true },
     orderBy: { updatedAt: 'desc' },
   });
@@ -0,0 +1,29 @@
+// src/app/opensearch.xml/route.ts — OpenSearch description, so browsers can add the wiki as an
+// address-bar search engine: results open /search, suggestions come from /api/search/opensearch.
+
+import { NextResponse } from 'next/server';
+import { BASE_URL } from '@/lib/utils';
+
+export function GET() {
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/" xmlns:moz="http://www.mozilla.org/2006/browser/search/">',
+    // Browsers cap ShortName at 16 characters.
+    '  <ShortName>RADIX Wiki</ShortName>',
+    '  <Description>Search the community knowledge base for Radix DLT.</Description>',
+    '  <InputEncoding>UTF-8</InputEncoding>',
+    `  <Image width="16" height="16" type="image/x-icon">${BASE_URL}/favicon.ico</Image>`,
+    `  <Url type="text/html" method="get" template="${BASE_URL}/search?q={searchTerms}" />`,
+    `  <Url type="application/x-suggestions+json" method="get" template="${BASE_URL}/api/search/opensearch?q={searchTerms}" />`,
+    `  <Url type="application/opensearchdescription+xml" rel="self" template="${BASE_URL}/opensearch.xml" />`,
+    `  <moz:SearchForm>${BASE_URL}/search</moz:SearchForm>`,
+    '</OpenSearchDescription>',
+  ].join('\n');
+
+  return new NextResponse(xml, {
+    headers: {
+      'Content-Type': 'application/opensearchdescription+xml; charset=utf-8',
+      'Cache-Control': 'public, s-maxage=86400',
+    },
+  });
+}
@@ -3,8 +3,8 @@ import { BASE_URL } from '@/lib/utils';
 
 export default function robots(): MetadataRoute.Robots {
   const aiAllow = ['/', '/api/mcp', '/api/wiki/', '/llms.txt', '/llms-full.txt'];
-  // Edit/history/mdx variants of canonical pages should not be indexed
-  const pageVariantDisallow = ['/*/edit', '/*/history', '/*/mdx', '/edit', '/history', '/mdx'];
+  // Edit/history/blame/mdx variants of canonical pages should not be indexed
+  const pageVariantDisallow = ['/*/edit', '/*/history', '/*/blame', '/*/mdx', '/edit', '/history', '/blame', '/mdx'];
   // A crawler obeys only its most-specific matching group, so every named agent
   // needs its own disallow — omitting it grants that agent unrestricted access.
   // The aiAllow entries still win over `/api/` by longest-match precedence,
@@ -2,6 +2,7 @@
 
 import type { MetadataRoute } from 'next';
 import { prisma } from '@/lib/prisma/client';
+import { LIVE } from '@/lib/wiki';
 import { TAG_HIERARCHY, isValidTagPath, type TagNode } from '@/lib/tags';
 import { CHARTS_PAGES } from '@/lib/static-pages';
 import { BASE_URL } from '@/lib/utils';
@@ -28,6 +29,7 @@ function pagePriority(tagPath: string): number {
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const pages = await prisma.page.findMany({
+    where: LIVE,
     select: { tagPath: true, slug: true, updatedAt: true },
     orderBy: { updatedAt: 'desc' },
   });
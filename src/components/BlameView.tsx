@@ -0,0 +1,96 @@
+// src/components/BlameView.tsx — Per-block attribution: who last wrote each block, and in which revision
+
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft, History } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { UserAvatar } from '@/components/UserAvatar';
+import { BLOCK_META } from '@/lib/block-utils';
+import { formatDate, cn } from '@/lib/utils';
+import type { BlockType } from '@/types/blocks';
+
+interface BlameBlock {
+  id: string;
+  type: BlockType;
+  path: string;
+  depth: number;
+  excerpt: string | null;
+  revision: {
+    id: string;
+    version: string;
+    createdAt: Date;
+    message?: string | null;
+    previousId: string | null;
+    author?: { id: string; displayName?: string | null; radixAddress: string; avatarUrl?: string | null };
+  } | null;
+}
+
+export type BlameData = { title: string; currentVersion: string; blocks: BlameBlock[] } | null;
+
+export function BlameView({ data, tagPath, slug, isHomepage }: { data: BlameData; tagPath: string; slug: string; isHomepage?: boolean }) {
+  const viewPath = isHomepage ? '/' : `/${tagPath}/${slug}`;
+  const historyPath = isHomepage ? '/history' : `/${tagPath}/${slug}/history`;
+
+  if (!data) {
+    return (
+      <div className="stack">
+        {!isHomepage && <Breadcrumbs path={[...tagPath.split('/'), slug]} suffix="Blame" />}
+        <div className="surface p-12 text-center"><p className="text-error">Page not found</p></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="stack">
+      {!isHomepage && <Breadcrumbs path={[...tagPath.split('/'), slug]} suffix="Blame" />}
+      <div className="spread">
+        <h1 className="m-0!">Who Wrote What</h1>
+        <div className="row">
+          <Link href={historyPath}><Button variant="secondary" size="sm"><History size={16} />History</Button></Link>
+          <Link href={viewPath}><Button variant="secondary" size="sm"><ArrowLeft size={16} />Back</Button></Link>
+        </div>
+      </div>
+      <p className="text-small text-text-muted m-0!">Each block of <strong>{data.title}</strong> (v{data.currentVersion}) with the revision that last added or edited it.</p>
+      {data.blocks.length > 0 ? (
+        <div className="surface divide-y divide-border-muted">
+          {data.blocks.map((b, i) => {
+            const rev = b.revision;
+            // Like git blame: only repeat the attribution when it changes from the row above.
+            const sameAsAbove = i > 0 && data.blocks[i - 1]!.revision?.id === rev?.id;
+            return (
+              <div key={b.id} className="grid grid-cols-[14rem_1fr] gap-3 p-3 text-small">
+                <div className={cn('stack-xs text-xs', sameAsAbove && 'invisible')}>
+                  {rev ? (
+                    <>
+                      {rev.author && (
+                        <Link href={`/leaderboard#u-${rev.author.id}`} className="row text-text-muted hover:text-accent truncate">
+                          <UserAvatar radixAddress={rev.author.radixAddress} avatarUrl={rev.author.avatarUrl} size="sm" />
+                          {rev.author.displayName || rev.author.radixAddress.slice(0, 12) + '…'}
+                        </Link>
+                      )}
+                      <span className="row gap-2 text-text-muted">
+                        <Link href={rev.previousId ? `${historyPath}?from=${rev.previousId}&to=${rev.id}` : historyPath} className="font-mono link">v{rev.version}</Link>
+                        {formatDate(rev.createdAt, { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </span>
+                      {rev.message && <span className="text-text-secondary truncate" title={rev.message}>{rev.message}</span>}
+                    </>
+                  ) : <span className="text-text-muted">Unattributed</span>}
+                </div>
+                <div className={cn('stack-xs min-w-0', b.depth > 0 && 'pl-4 border-l-2 border-border-muted')}>
+                  <span className="text-xs font-medium text-text-muted">{BLOCK_META[b.type]?.label ?? b.type}</span>
+                  {b.excerpt && <p className="m-0! whitespace-pre-line line-clamp-6">{b.excerpt}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="surface p-12 text-center"><p className="text-text-muted">This page has no blocks.</p></div>
+      )}
+    </div>
+  );
+}
+
+export default BlameView;
@@ -5,30 +5,32 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { useRouter, usePathname } from 'next/navigation';
-import { Search, Menu, X, Loader2, LogOut, ChevronDown, Edit, History, User, FileCode, Bell, Webhook, Database, MoreVertical, Quote, Link2, Check, Eye, EyeOff } from 'lucide-react';
+import { Search, Menu, X, Loader2, LogOut, ChevronDown, Edit, History, User, FileCode, Bell, Webhook, Database, MoreVertical, Quote, Link2, Check, Eye, EyeOff, UserSearch, FilePen, Trash2 } from 'lucide-react';
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useStore, useAuth, useClickOutside, usePagePath, useFetch } from '@/hooks';
-import { cn, shortenAddress, formatRelativeTime, getMatchSnippet } from '@/lib/utils';
-import Highlight from '@/components/Highlight';
+import { cn, shortenAddress, formatRelativeTime } from '@/lib/utils';
 import { Button, Dropdown } from '@/components/ui';
 import { UserAvatar } from '@/components/UserAvatar';
-import type { WikiPage, WikiNotification } from '@/types';
+import type { WikiNotification, DraftSummary } from '@/types';
 import type { LedgerAnchor } from '@/lib/radix/ledger';
 import { WebhookSettings } from '@/components/WebhookSettings';
 import { LedgerDropdown } from '@/components/LedgerBackupView';
+import { useSearchSuggest, SuggestList } from '@/components/SearchSuggest';
 
 function usePageContext() {
-  const { isHomepage, isPage, isEdit, isHistory, viewPath, tagPath, slug } = usePagePath();
+  const { isHomepage, isPage, isEdit, isHistory, isBlame, viewPath, tagPath, slug } = usePagePath();
   const { isAuthenticated } = useAuth();
   const mdxPath = (isHomepage || isPage) ? (isHomepage ? '/api/wiki/mdx' : `/api/wiki/${tagPath}/${slug}/mdx`) : null;
 
   return {
-    canEdit: isAuthenticated && (isHomepage || isPage) && !isEdit && !isHistory,
+    canEdit: isAuthenticated && (isHomepage || isPage) && !isEdit && !isHistory && !isBlame,
     canShowHistory: (isHomepage || isPage) && !isHistory,
-    canExportMdx: (isHomepage || isPage) && !isEdit && !isHistory,
+    canShowBlame: (isHomepage || isPage) && !isEdit && !isBlame,
+    canExportMdx: (isHomepage || isPage) && !isEdit && !isHistory && !isBlame,
     isPage,
     editPath: isHomepage ? '/edit' : `${viewPath}/edit`,
     historyPath: (isHomepage || isPage) ? (isHomepage ? '/history' : `${viewPath}/history`) : null,
+    blamePath: (isHomepage || isPage) ? (isHomepage ? '/blame' : `${viewPath}/blame`) : null,
     mdxPath,
     tagPath,
     slug,
@@ -39,6 +41,8 @@ function notificationText(n: WikiNotification): string {
   const actor = n.actor.displayName || 'Someone';
   if (n.type === 'comment_on_page') return `${actor} commented on "${n.page.title}"`;
   if (n.type === 'comment_reply') return `${actor} replied to your comment on "${n.page.title}"`;
+  if (n.type === 'edit_accepted') return `${actor} accepted your edit to "${n.page.title}"`;
+  if (n.type === 'edit_rejected') return `${actor} declined your edit to "${n.page.title}"`;
   return `${actor} edited "${n.page.title}"`;
 }
 
@@ -95,8 +99,24 @@ function NotificationDropdown({ onClose, initialTab }: { onClose: () => void; in
 }
 
 function UserMenuDropdown({ onClose, onLogout }: { onClose: () => void; onLogout: () => void }) {
+  const { data: drafts } = useFetch<DraftSummary[]>('/api/drafts');
   return (
     <Dropdown onClose={onClose}>
+      {drafts && drafts.length > 0 && (
+        <div className="border-b border-border-muted pb-1 mb-1 max-h-72 overflow-y-auto">
+          <div className="px-4 py-1 text-xs font-medium text-text-muted">My drafts</div>
+          {drafts.map(d => (
+            <Link key={d.id} href={`/${d.tagPath}/${d.slug}/edit`} className="dropdown-item" onClick={onClose}>
+              <FilePen size={16} className="shrink-0" />
+              <div className="min-w-0">
+                <div className="text-small truncate">{d.title || 'Untitled'}</div>
+                <div className="text-xs text-text-muted">{formatRelativeTime(d.updatedAt)}</div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+      <Link href="/trash" className="dropdown-item" onClick={onClose}><Trash2 size={16} />Trash</Link>
       <button onClick={() => { onClose(); onLogout(); }} className="dropdown-item text-error hover:text-error/80">
         <LogOut size={16} />Disconnect
       </button>
@@ -104,25 +124,11 @@ function UserMenuDropdown({ onClose, onLogout }: { onClose: () => void; onLogout
   );
 }
 
-// ===== Search =====
-// One row shape for both the desktop dropdown and the mobile panel. The snippet is
-// the passage the query matched, so a body-text hit doesn't read as an unrelated title.
-function SearchResultRow({ page, query, onSelect }: { page: WikiPage; query: string; onSelect: (page: WikiPage) => void }) {
-  const snippet = getMatchSnippet(page.content, query, 120);
-  return (
-    <button type="button" onClick={() => onSelect(page)} className="search-result">
-      <div className="font-medium truncate"><Highlight text={page.title} query={query} /></div>
-      <div className="text-small text-text-muted truncate">/{page.tagPath}/{page.slug}</div>
-      {snippet && <p className="text-small text-text-muted line-clamp-1 mt-0.5"><Highlight text={snippet} query={query} /></p>}
-    </button>
-  );
-}
-
 // ===== Page tools =====
 // One home for page-scoped actions (Wikipedia's Tools menu): history, export,
 // cite/permalink, watch, ledger backup — instead of a row of header icons.
-function PageToolsDropdown({ onClose, historyPath, mdxPath, tagPath, slug, isPage, ledgerColor, onOpenLedger, onConnectTelegram }: {
-  onClose: () => void; historyPath: string | null; mdxPath: string | null;
+function PageToolsDropdown({ onClose, historyPath, blamePath, mdxPath, tagPath, slug, isPage, ledgerColor, onOpenLedger, onConnectTelegram }: {
+  onClose: () => void; historyPath: string | null; blamePath: string | null; mdxPath: string | null;
   tagPath?: string; slug?: string; isPage: boolean;
   ledgerColor: string | null; onOpenLedger: (() => void) | null; onConnectTelegram: () => void;
 }) {
@@ -183,6 +189,7 @@ function PageToolsDropdown({ onClose, historyPath, mdxPath, tagPath, slug, isPag
         </button>
       )}
       {historyPath && <Link href={historyPath} className="dropdown-item" onClick={onClose}><History size={16} />Page history</Link>}
+      {blamePath && <Link href={blamePath} className="dropdown-item" onClick={onClose}><UserSearch size={16} />Who wrote what</Link>}
       {mdxPath && <a href={mdxPath} className="dropdown-item" download onClick={onClose}><FileCode size={16} />Download MDX</a>}
       {isPage && (
         <>
@@ -204,7 +211,6 @@ function PageToolsDropdown({ onClose, historyPath, mdxPath, tagPath, slug, isPag
 }
 
 export function Header() {
-  const router = useRouter();
   const { isAuthenticated, user, walletData } = useAuth();
   const isConnected = useStore(s => s.isConnected);
   const isLoading = useStore(s => s.isLoading);
@@ -216,7 +222,7 @@ export function Header() {
   const isConnecting = useStore(s => s.isConnecting);
   const fetchNotifications = useStore(s => s.fetchNotifications);
   const unreadCount = useStore(s => s.unreadCount);
-  const { canEdit, canShowHistory, canExportMdx, isPage, editPath, historyPath, mdxPath, tagPath, slug } = usePageContext();
+  const { canEdit, canShowHistory, canShowBlame, canExportMdx, isPage, editPath, historyPath, blamePath, mdxPath, tagPath, slug } = usePageContext();
   const [showSearch, setShowSearch] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -239,23 +245,13 @@ export function Header() {
   })();
 
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<WikiPage[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
-  const clearSearchResults = useCallback(() => { setSearchResults([]); setSearchOpen(false); }, []);
-  const searchRef = useClickOutside<HTMLDivElement>(clearSearchResults);
-  const desktopSearchRef = useClickOutside<HTMLFormElement>(clearSearchResults);
+  const closeSearchResults = useCallback(() => setSearchOpen(false), []);
+  const searchRef = useClickOutside<HTMLDivElement>(closeSearchResults);
+  const desktopSearchRef = useClickOutside<HTMLFormElement>(closeSearchResults);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const desktopSearchInputRef = useRef<HTMLInputElement>(null);
-
-  const goToSearchPage = useCallback(() => {
-    const trimmed = searchQuery.trim();
-    if (!trimmed) return;
-    setSearchResults([]);
-    setSearchOpen(false);
-    setShowSearch(false);
-    router.push(`/search?q=${encodeURIComponent(trimmed)}`);
-  }, [searchQuery, router]);
+  const suggest = useSearchSuggest(searchQuery, () => { setSearchQuery(''); setSearchOpen(false); setShowSearch(false); });
 
   // "/" focuses search from anywhere (Wikipedia-style), unless already typing.
   useEffect(() => {
@@ -292,23 +288,6 @@ export function Header() {
     if (showSearch && searchInputRef.current) searchInputRef.current.focus();
   }, [showSearch]);
 
-  const performSearch = useCallback(async (query: string) => {
-    if (!query.trim()) { setSearchResults([]); return; }
-    setIsSearching(true);
-    try {
-      const res = await fetch(`/api/wiki?${new URLSearchParams({ search: query, pageSize: '5' })}`);
-      if (res.ok) setSearchResults((await res.json()).items || []);
-    } catch (e) { console.error('Search failed:', e); }
-    finally { setIsSearching(false); }
-  }, []);
-
-  useEffect(() => {
-    const timer = setTimeout(() => performSearch(searchQuery), 300);
-    return () => clearTimeout(timer);
-  }, [searchQuery, performSearch]);
-
-  const handleSearchSelect = (page: WikiPage) => { setSearchQuery(''); setSearchResults([]); setSearchOpen(false); setShowSearch(false); router.push(`/${page.tagPath}/${page.slug}`); };
-
   const handleLogout = async () => {
     setShowUserMenu(false);
     await logout();
@@ -327,27 +306,14 @@ export function Header() {
             <span className="logo-text">RADIX Wiki</span>
           </Link>
 
-          <form ref={desktopSearchRef} className="header-search" onSubmit={e => { e.preventDefault(); goToSearchPage(); }}>
+          <form ref={desktopSearchRef} className="header-search" role="search" onSubmit={e => e.preventDefault()}>
             <Search className="search-icon-left" size={18} />
             <input ref={desktopSearchInputRef} type="search" placeholder="Search the wiki... ( / )" className="input pl-10" value={searchQuery}
+              role="combobox" aria-autocomplete="list" aria-expanded={searchOpen && !!searchQuery.trim()} aria-controls="search-suggest" aria-activedescendant={suggest.activeId('search-suggest')}
               onChange={e => { setSearchQuery(e.target.value); setSearchOpen(true); }}
-              onKeyDown={e => { if (e.key === 'Escape') { setSearchQuery(''); setSearchResults([]); setSearchOpen(false); } }} />
-            {isSearching && <Loader2 className="search-icon-right" size={18} />}
-            {searchOpen && searchResults.length > 0 && (
-              <div className="search-results">
-                {searchResults.map(page => (
-                  <SearchResultRow key={page.id} page={page} query={searchQuery.trim()} onSelect={handleSearchSelect} />
-                ))}
-                <button type="button" onClick={goToSearchPage} className="search-result search-result-all">
-                  See all results for &ldquo;{searchQuery.trim()}&rdquo;
-                </button>
-              </div>
-            )}
-            {searchOpen && searchQuery.trim() && !isSearching && searchResults.length === 0 && (
-              <div className="search-results">
-                <div className="search-empty">No pages found for &ldquo;{searchQuery.trim()}&rdquo;</div>
-              </div>
-            )}
+              onKeyDown={e => { if (e.key === 'Escape') { setSearchQuery(''); setSearchOpen(false); } else suggest.onKeyDown(e); }} />
+            {suggest.isLoading && <Loader2 className="search-icon-right" size={18} />}
+            {searchOpen && <SuggestList id="search-suggest" query={searchQuery} {...suggest} />}
           </form>
 
           <div className="header-actions">
@@ -355,7 +321,7 @@ export function Header() {
 
             {canEdit && <Link href={editPath} className="icon-btn" title="Edit page" aria-label="Edit page"><Edit size={20} /></Link>}
 
-            {(canShowHistory || canExportMdx) && (
+            {(canShowHistory || canShowBlame || canExportMdx) && (
               <div className="relative">
                 <button onClick={() => setShowTools(!showTools)} className="icon-btn" title="Page tools" aria-label="Page tools" aria-expanded={showTools}>
                   <MoreVertical size={20} />
@@ -364,6 +330,7 @@ export function Header() {
                   <PageToolsDropdown
                     onClose={() => setShowTools(false)}
                     historyPath={canShowHistory ? historyPath : null}
+                    blamePath={canShowBlame ? blamePath : null}
                     mdxPath={canExportMdx ? mdxPath : null}
                     tagPath={tagPath ?? undefined} slug={slug ?? undefined} isPage={isPage}
                     ledgerColor={isAuthenticated ? ledgerIconColor : null}
@@ -414,23 +381,11 @@ export function Header() {
             <div className="relative">
               <Search className="search-icon-left" size={18} />
               <input ref={searchInputRef} type="search" placeholder="Search the wiki..." className="input pl-10" value={searchQuery}
-                onChange={e => setSearchQuery(e.target.value)}
-                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); goToSearchPage(); } else if (e.key === 'Escape') { setShowSearch(false); setSearchQuery(''); setSearchResults([]); } }} />
-              {isSearching && <Loader2 className="search-icon-right" size={18} />}
-
-              {searchResults.length > 0 && (
-                <div className="search-results">
-                  {searchResults.map(page => (
-                    <SearchResultRow key={page.id} page={page} query={searchQuery.trim()} onSelect={handleSearchSelect} />
-                  ))}
-                </div>
-              )}
-
-              {searchQuery.trim() && !isSearching && searchResults.length === 0 && (
-                <div className="search-empty">
-                  No pages found for &ldquo;{searchQuery}&rdquo;
-                </div>
-              )}
+                role="combobox" aria-autocomplete="list" aria-expanded={searchOpen && !!searchQuery.trim()} aria-controls="search-suggest-mobile" aria-activedescendant={suggest.activeId('search-suggest-mobile')}
+                onChange={e => { setSearchQuery(e.target.value); setSearchOpen(true); }}
+                onKeyDown={e => { if (e.key === 'Escape') { setShowSearch(false); setSearchQuery(''); } else suggest.onKeyDown(e); }} />
+              {suggest.isLoading && <Loader2 className="search-icon-right" size={18} />}
+              {searchOpen && <SuggestList id="search-suggest-mobile" query={searchQuery} {...suggest} />}
             </div>
           </div>
         )}
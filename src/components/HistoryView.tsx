@@ -5,20 +5,21 @@
 import { useState, useEffect, Fragment } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, RotateCcw, Plus, Minus, Pencil, Move, ChevronDown } from 'lucide-react';
+import { ArrowLeft, RotateCcw, Undo2, Plus, Minus, Pencil, Move, ChevronDown, GitCompare } from 'lucide-react';
 import { Button, Badge } from '@/components/ui';
 import { Breadcrumbs } from '@/components/Breadcrumbs';
 import { useAuth } from '@/hooks';
 import { UserAvatar } from '@/components/UserAvatar';
 import { formatDate, cn } from '@/lib/utils';
 import { stripHtml } from '@/lib/content';
-import type { BlockChange } from '@/lib/versioning';
+import type { BlockChange, RevisionDiff } from '@/lib/versioning';
 
 interface RevisionData {
   id: string;
   title: string;
   version: string;
   changeType: string;
+  changeRationale?: string | null;
   changes: BlockChange[] | null;
   message?: string | null;
   createdAt: Date;
@@ -27,6 +28,9 @@ interface RevisionData {
 
 export type HistoryData = { currentVersion: string; revisions: RevisionData[] } | null;
 
+type ComparedRevision = Omit<RevisionData, 'changeType' | 'changeRationale' | 'changes'>;
+export type RevisionComparison = { currentVersion: string; from: ComparedRevision; to: ComparedRevision; diff: RevisionDiff } | null;
+
 const TYPE_BADGE: Record<string, { label: string; variant: 'danger' | 'warning' | 'secondary' }> = {
   major: { label: 'Major', variant: 'danger' },
   minor: { label: 'Minor', variant: 'warning' },
@@ -54,7 +58,7 @@ function ChangeSummary({ changes, changeType }: { changes: BlockChange[]; change
   return <span className="text-xs text-text-muted">{fallback}</span>;
 }
 
-function ContentDiff({ from, to }: { from: string; to: string }) {
+function useWordDiff(from: string, to: string) {
   const [parts, setParts] = useState<[number, string][] | null>(null);
 
   useEffect(() => {
@@ -66,6 +70,11 @@ function ContentDiff({ from, to }: { from: string; to: string }) {
     });
   }, [from, to]);
 
+  return parts;
+}
+
+function ContentDiff({ from, to }: { from: string; to: string }) {
+  const parts = useWordDiff(from, to);
   if (!parts || parts.length === 0) return null;
 
   return (
@@ -79,6 +88,27 @@ function ContentDiff({ from, to }: { from: string; to: string }) {
   );
 }
 
+function SideBySideDiff({ from, to }: { from: string; to: string }) {
+  const parts = useWordDiff(from, to);
+  if (!parts || parts.length === 0) return null;
+
+  // Old text on the left with deletions struck, new text on the right with insertions highlighted.
+  return (
+    <div className="grid grid-cols-2 gap-3 mt-1 text-xs leading-relaxed">
+      <div className="surface p-2">
+        {parts.filter(([type]) => type !== 1).map(([type, text], i) =>
+          type === -1 ? <span key={i} className="text-error/80 line-through bg-error/10 rounded-xs">{text}</span> : <span key={i} className="text-text-muted">{text}</span>
+        )}
+      </div>
+      <div className="surface p-2">
+        {parts.filter(([type]) => type !== -1).map(([type, text], i) =>
+          type === 1 ? <span key={i} className="text-success bg-success/10 rounded-xs px-0.5">{text}</span> : <span key={i} className="text-text-muted">{text}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function formatBlockPath(path: string, type: string): string {
   const parts = path.replace('root.', '').split('.');
   const segments: string[] = [];
@@ -100,43 +130,122 @@ function formatBlockPath(path: string, type: string): string {
   return `${typeLabel} at ${location}`;
 }
 
-function ExpandedChanges({ changes }: { changes: BlockChange[] }) {
+const ACTION_ICONS = { added: <Plus size={12} className="text-success" />, removed: <Minus size={12} className="text-error" />, modified: <Pencil size={12} className="text-warning" />, moved: <Move size={12} className="text-info" /> };
+const ACTION_COLORS = { added: 'text-success', removed: 'text-error', modified: 'text-warning', moved: 'text-info' };
+
+function ChangeRow({ change: c, sideBySide, onUndo, undoing }: { change: BlockChange; sideBySide?: boolean; onUndo?: () => void; undoing?: boolean }) {
+  const textAttr = c.attributes?.text as { from: string; to: string } | undefined;
+  const fromText = c.contentDiff?.from ?? textAttr?.from ?? '';
+  const toText = c.contentDiff?.to ?? textAttr?.to ?? '';
+  const hasTextChange = fromText || toText;
+  const otherAttrs = sideBySide && c.action === 'modified' ? Object.keys(c.attributes ?? {}).filter(k => k !== 'text') : [];
+  return (
+    <div className="text-xs">
+      <div className="row gap-2">
+        {ACTION_ICONS[c.action]}
+        <span className={cn('capitalize font-medium', ACTION_COLORS[c.action])}>{c.action}</span>
+        <span className="text-text-muted">—</span>
+        <span>{formatBlockPath(c.path, c.type)}</span>
+        {otherAttrs.length > 0 && <span className="text-text-muted">({otherAttrs.join(', ')})</span>}
+        {onUndo && (
+          <button onClick={onUndo} disabled={undoing} className="restore-btn ml-auto" title="Reverse just this change on the current page">
+            <Undo2 size={12} /><span>{undoing ? '…' : 'Undo'}</span>
+          </button>
+        )}
+      </div>
+      {hasTextChange && (sideBySide ? <SideBySideDiff from={fromText} to={toText} /> : <ContentDiff from={fromText} to={toText} />)}
+    </div>
+  );
+}
+
+function ExpandedChanges({ changes, onUndo, undoingId }: { changes: BlockChange[]; onUndo?: (change: BlockChange) => void; undoingId?: string | null }) {
   const visible = changes.filter(c => !CONTAINER_TYPES.has(c.type));
   return (
-    <tr><td colSpan={6} className="p-0!">
+    <tr><td colSpan={7} className="p-0!">
       <div className="bg-surface-0 p-3 border-t border-border-muted stack-sm">
-        {visible.map((c, i) => {
-          const icons = { added: <Plus size={12} className="text-success" />, removed: <Minus size={12} className="text-error" />, modified: <Pencil size={12} className="text-warning" />, moved: <Move size={12} className="text-info" /> };
-          const colors = { added: 'text-success', removed: 'text-error', modified: 'text-warning', moved: 'text-info' };
-          const textAttr = c.attributes?.text as { from: string; to: string } | undefined;
-          const fromText = c.contentDiff?.from ?? textAttr?.from ?? '';
-          const toText = c.contentDiff?.to ?? textAttr?.to ?? '';
-          const hasTextChange = fromText || toText;
-          return (
-            <div key={i} className="text-xs">
-              <div className="row gap-2">
-                {icons[c.action]}
-                <span className={cn('capitalize font-medium', colors[c.action])}>{c.action}</span>
-                <span className="text-text-muted">—</span>
-                <span>{formatBlockPath(c.path, c.type)}</span>
-              </div>
-              {hasTextChange && <ContentDiff from={fromText} to={toText} />}
-            </div>
-          );
-        })}
+        {visible.map((c, i) => <ChangeRow key={i} change={c} onUndo={onUndo && (() => onUndo(c))} undoing={undoingId === c.id} />)}
       </div>
     </td></tr>
   );
 }
 
-export function HistoryView({ data, tagPath, slug, isHomepage }: { data: HistoryData; tagPath: string; slug: string; isHomepage?: boolean }) {
+/** Block changes with side-by-side text diffs; containers are left out since their children carry the change. */
+export function ChangeList({ changes }: { changes: BlockChange[] }) {
+  const visible = changes.filter(c => !CONTAINER_TYPES.has(c.type));
+  if (visible.length === 0) return null;
+  return <div className="surface p-3 stack-sm">{visible.map((c, i) => <ChangeRow key={i} change={c} sideBySide />)}</div>;
+}
+
+function RevisionLabel({ rev }: { rev: ComparedRevision }) {
+  return (
+    <div className="stack-xs">
+      <span className="font-mono font-medium">v{rev.version}</span>
+      <span className="text-xs text-text-muted">
+        {rev.author ? rev.author.displayName || rev.author.radixAddress.slice(0, 12) + '…' : '—'} · {formatDate(rev.createdAt, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+      </span>
+      {rev.message && <span className="text-xs text-text-secondary">{rev.message}</span>}
+    </div>
+  );
+}
+
+function CompareView({ comparison, historyPath }: { comparison: NonNullable<RevisionComparison>; historyPath: string }) {
+  const { from, to, diff } = comparison;
+  const hasBlockChanges = diff.changes.some(c => !CONTAINER_TYPES.has(c.type));
+  return (
+    <div className="stack">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="surface p-3"><RevisionLabel rev={from} /></div>
+        <div className="surface p-3"><RevisionLabel rev={to} /></div>
+      </div>
+      <div className="row gap-2 text-small">
+        <Badge variant={(TYPE_BADGE[diff.changeType] ?? TYPE_BADGE.patch!).variant}>{(TYPE_BADGE[diff.changeType] ?? TYPE_BADGE.patch!).label}</Badge>
+        <span className="text-text-secondary">{diff.summary}</span>
+      </div>
+      {diff.titleChanged && <ChangeTitle from={from.title} to={to.title} />}
+      {hasBlockChanges ? <ChangeList changes={diff.changes} /> : (
+        <div className="surface p-12 text-center"><p className="text-text-muted">No block changes between these revisions.</p></div>
+      )}
+      <Link href={historyPath} className="link-muted text-small">← All revisions</Link>
+    </div>
+  );
+}
+
+export function ChangeTitle({ from, to }: { from: string; to: string }) {
+  return (
+    <div className="text-xs">
+      <div className="row gap-2">{ACTION_ICONS.modified}<span className="font-medium text-warning">Title</span></div>
+      <SideBySideDiff from={from} to={to} />
+    </div>
+  );
+}
+
+export function HistoryView({ data, comparison, tagPath, slug, isHomepage }: { data: HistoryData; comparison?: RevisionComparison; tagPath: string; slug: string; isHomepage?: boolean }) {
   const router = useRouter();
   const { isAuthenticated } = useAuth();
   const [restoringId, setRestoringId] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState(data?.revisions[1]?.id ?? null);
+  const [compareTo, setCompareTo] = useState(data?.revisions[0]?.id ?? null);
 
   const apiBase = isHomepage ? '/api/wiki' : `/api/wiki/${tagPath}/${slug}`;
   const viewPath = isHomepage ? '/' : `/${tagPath}/${slug}`;
+  const historyPath = isHomepage ? '/history' : `/${tagPath}/${slug}/history`;
+
+  if (comparison !== undefined) {
+    return (
+      <div className="stack">
+        {!isHomepage && <Breadcrumbs path={[...tagPath.split('/'), slug]} suffix="Compare" />}
+        <div className="spread">
+          <h1 className="m-0!">Compare Revisions</h1>
+          <Link href={historyPath}><Button variant="secondary" size="sm"><ArrowLeft size={16} />History</Button></Link>
+        </div>
+        {comparison ? <CompareView comparison={comparison} historyPath={historyPath} /> : (
+          <div className="surface p-12 text-center"><p className="text-error">Revision not found</p></div>
+        )}
+      </div>
+    );
+  }
 
   if (!data) {
     return (
@@ -158,18 +267,35 @@ export function HistoryView({ data, tagPath, slug, isHomepage }: { data: History
     finally { setRestoringId(null); }
   };
 
+  const handleUndo = async (revisionId: string, change: BlockChange) => {
+    if (!confirm(`Undo this ${change.action === 'modified' ? 'edit' : change.action} on the current page?`)) return;
+    setUndoingId(change.id);
+    try {
+      const r = await fetch(`${apiBase}/history`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ revisionId, blockId: change.id }) });
+      if (r.ok) router.refresh();
+      else alert((await r.json()).error || 'Failed to undo');
+    } catch { alert('Failed to undo'); }
+    finally { setUndoingId(null); }
+  };
+
   return (
     <div className="stack">
       {!isHomepage && <Breadcrumbs path={[...tagPath.split('/'), slug]} suffix="History" />}
       <div className="spread">
         <h1 className="m-0!">{isHomepage ? 'Homepage' : 'Page'} History</h1>
-        <Link href={viewPath}><Button variant="secondary" size="sm"><ArrowLeft size={16} />Back</Button></Link>
+        <div className="row">
+          {compareFrom && compareTo && compareFrom !== compareTo && (
+            <Link href={`${historyPath}?from=${compareFrom}&to=${compareTo}`}><Button variant="secondary" size="sm"><GitCompare size={16} />Compare selected</Button></Link>
+          )}
+          <Link href={viewPath}><Button variant="secondary" size="sm"><ArrowLeft size={16} />Back</Button></Link>
+        </div>
       </div>
       {data.revisions.length > 0 ? (
         <div className="overflow-x-auto">
           <table className="w-full text-small">
             <thead>
               <tr className="text-left text-text-muted">
+                <th className="py-2 px-3 font-medium w-16" title="Pick two revisions to compare">Diff</th>
                 <th className="py-2 px-3 font-medium w-24">Version</th>
                 <th className="py-2 px-3 font-medium w-20">Type</th>
                 <th className="py-2 px-3 font-medium">Changes</th>
@@ -186,12 +312,18 @@ export function HistoryView({ data, tagPath, slug, isHomepage }: { data: History
                 const isExpanded = expandedId === rev.id;
                 return (
                   <Fragment key={rev.id}>
-                    <tr className={cn('border-t border-border-muted hover:bg-surface-1/50', isCurrent && 'bg-accent/5', i === 0 && '[&>td]:rounded-none')}>
+                    <tr id={`rev-${rev.id}`} className={cn('border-t border-border-muted hover:bg-surface-1/50 target:bg-accent/10 scroll-mt-24', isCurrent && 'bg-accent/5', i === 0 && '[&>td]:rounded-none')}>
+                      <td className="py-2 px-3">
+                        <div className="row gap-1">
+                          <input type="radio" name="compare-from" aria-label={`Compare from v${rev.version}`} checked={compareFrom === rev.id} onChange={() => setCompareFrom(rev.id)} />
+                          <input type="radio" name="compare-to" aria-label={`Compare to v${rev.version}`} checked={compareTo === rev.id} onChange={() => setCompareTo(rev.id)} />
+                        </div>
+                      </td>
                       <td className="py-2 px-3">
                         <span className="font-mono font-medium">v{rev.version}</span>
                         {isCurrent && <Badge variant="default" className="ml-2 text-xs py-0">current</Badge>}
                       </td>
-                      <td className="py-2 px-3"><Badge variant={type.variant}>{type.label}</Badge></td>
+                      <td className="py-2 px-3"><Badge variant={type.variant} title={rev.changeRationale ?? undefined}>{type.label}</Badge></td>
                       <td className="py-2 px-3">
                         <div className="row gap-3">
                           <ChangeSummary changes={changes} changeType={rev.changeType} />
@@ -219,7 +351,7 @@ export function HistoryView({ data, tagPath, slug, isHomepage }: { data: History
                         )}
                       </td>
                     </tr>
-                    {isExpanded && changes.length > 0 && <ExpandedChanges changes={changes} />}
+                    {isExpanded && changes.length > 0 && <ExpandedChanges changes={changes} onUndo={isAuthenticated ? c => handleUndo(rev.id, c) : undefined} undoingId={undoingId} />}
                   </Fragment>
                 );
               })}
@@ -12,8 +12,8 @@ export function MaintenanceView({ queues }: { queues: MaintenanceQueue[] }) {
       <Breadcrumbs path={['maintenance']} />
       <h1>Maintenance</h1>
       <p className="text-text-muted text-lg">
-        Pages the wiki&rsquo;s own rules flag as needing work. Each queue is derived, not curated — fix the page and it
-        leaves the list on the next revalidation.
+        Pages the wiki&rsquo;s own rules flag as needing work, and articles readers looked for and didn&rsquo;t find. Each
+        queue is derived, not curated — fix the page and it leaves the list on the next revalidation.
       </p>
       {total === 0 ? (
         <Card className="empty-state"><p className="text-text-muted">Nothing needs attention. Every page is verified, linked, sourced, and complete.</p></Card>
@@ -26,7 +26,7 @@ export function MaintenanceView({ queues }: { queues: MaintenanceQueue[] }) {
               {queue.items.map(item => (
                 <li key={item.href} className="maintenance-item">
                   <Link href={item.href} className="link">{item.title}</Link>
-                  <span className="maintenance-detail">{item.tagPath} · {item.detail}</span>
+                  <span className="maintenance-detail">{[item.tagPath, item.detail].filter(Boolean).join(' · ')}</span>
                 </li>
               ))}
             </ul>
@@ -0,0 +1,149 @@
+// src/components/ProtectionView.tsx — Admin page for setting, renewing and lifting page protection
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Shield } from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import { useAuth, useFetch, useStore } from '@/hooks';
+import { formatDate } from '@/lib/utils';
+import { PROTECTION_LABELS, PROTECTION_LEVELS, SEMI_PROTECTION_MIN_POINTS, type ProtectionLevel } from '@/lib/protection';
+
+interface ProtectedPage {
+  id: string;
+  title: string;
+  tagPath: string;
+  slug: string;
+  protection: ProtectionLevel;
+  protectionMinPoints: number | null;
+  protectionReason: string | null;
+  protectionExpiresAt: string | null;
+  active: boolean;
+  protectedBy: { id: string; displayName: string | null; radixAddress: string } | null;
+}
+
+const EMPTY_FORM = { path: '', level: 'semi' as ProtectionLevel, minPoints: '', reason: '', expiresAt: '' };
+
+export default function ProtectionView() {
+  const { isAuthenticated } = useAuth();
+  const showToast = useStore(s => s.showToast);
+  const [reload, setReload] = useState(0);
+  const { data, isLoading, error } = useFetch<{ items: ProtectedPage[] }>(isAuthenticated ? `/api/admin/protection?v=${reload}` : null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="stack">
+        <h1>Page Protection</h1>
+        <p className="text-text-muted">Connect your wallet to manage page protection.</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="stack">
+        <h1>Page Protection</h1>
+        <p className="text-error">Access denied or failed to load protected pages.</p>
+      </div>
+    );
+  }
+
+  async function setProtection(body: Record<string, unknown>, done: string) {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/protection', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      if (!res.ok) { alert((await res.json()).error || 'Failed to set protection'); return false; }
+      showToast(done);
+      setReload(n => n + 1);
+      return true;
+    } catch { alert('Failed to set protection'); return false; }
+    finally { setSaving(false); }
+  }
+
+  async function handleSubmit() {
+    const path = form.path.trim().replace(/^https?:\/\/[^/]+/, '').replace(/^\/+|\/+$/g, '');
+    const cut = path.lastIndexOf('/');
+    if (cut <= 0) { alert('Enter a page path like ecosystem/my-page'); return; }
+    const ok = await setProtection({
+      tagPath: path.slice(0, cut), slug: path.slice(cut + 1), level: form.level,
+      minPoints: form.level === 'semi' && form.minPoints ? parseInt(form.minPoints) : null,
+      reason: form.reason, expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+    }, form.level === 'none' ? 'Protection lifted' : 'Protection set');
+    if (ok) setForm(EMPTY_FORM);
+  }
+
+  return (
+    <div className="stack">
+      <div className="stack-sm">
+        <div className="row">
+          <Shield size={24} className="text-accent" />
+          <h1>Page Protection</h1>
+        </div>
+        <p className="text-text-muted">
+          Restrict who can edit a page — by contributor points, to its author and invited editors, or to admins — optionally until a date.
+        </p>
+      </div>
+
+      <div className="surface rounded-lg p-4 stack-sm">
+        <h2 className="text-small text-text-muted uppercase tracking-wide">Set protection</h2>
+        <Input placeholder="Page path, e.g. ecosystem/my-page" value={form.path} onChange={e => setForm({ ...form, path: e.target.value })} />
+        <div className="row flex-wrap">
+          <select className="input w-auto" value={form.level} onChange={e => setForm({ ...form, level: e.target.value as ProtectionLevel })}>
+            {PROTECTION_LEVELS.map(level => <option key={level} value={level}>{PROTECTION_LABELS[level]}</option>)}
+          </select>
+          {form.level === 'semi' && (
+            <Input type="number" min={1} className="w-40" placeholder={`${SEMI_PROTECTION_MIN_POINTS} points`} value={form.minPoints}
+              onChange={e => setForm({ ...form, minPoints: e.target.value })} />
+          )}
+          {form.level !== 'none' && (
+            <label className="row text-small text-text-muted">
+              Expires
+              <Input type="date" className="w-auto" value={form.expiresAt} onChange={e => setForm({ ...form, expiresAt: e.target.value })} />
+            </label>
+          )}
+        </div>
+        {form.level !== 'none' && (
+          <Input placeholder="Reason, shown to readers and editors" value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} />
+        )}
+        <div>
+          <Button size="sm" onClick={handleSubmit} disabled={saving || !form.path.trim()}>
+            {saving ? 'Saving…' : form.level === 'none' ? 'Lift protection' : 'Protect page'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="surface rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-surface-2"><h2>Protected pages</h2></div>
+        {isLoading && !data ? (
+          <div className="p-4"><div className="h-10 skeleton rounded" /></div>
+        ) : !data?.items.length ? (
+          <p className="p-4 text-text-muted">No pages are protected.</p>
+        ) : (
+          <div className="divide-y divide-border-muted">
+            {data.items.map(page => (
+              <div key={page.id} className="spread p-3 gap-3">
+                <div className="stack-xs min-w-0">
+                  <Link href={`/${page.tagPath}/${page.slug}`} className="font-medium truncate">{page.title}</Link>
+                  <span className="text-xs text-text-muted">
+                    {PROTECTION_LABELS[page.protection]}
+                    {page.protection === 'semi' && ` (${(page.protectionMinPoints ?? SEMI_PROTECTION_MIN_POINTS).toLocaleString()} points)`}
+                    {page.protectionExpiresAt && ` · ${page.active ? 'until' : 'expired'} ${formatDate(page.protectionExpiresAt)}`}
+                    {page.protectionReason && ` · ${page.protectionReason}`}
+                    {page.protectedBy && ` · set by ${page.protectedBy.displayName || page.protectedBy.radixAddress.slice(0, 12) + '…'}`}
+                  </span>
+                </div>
+                <Button variant="secondary" size="sm" disabled={saving}
+                  onClick={() => setProtection({ tagPath: page.tagPath, slug: page.slug, level: 'none' }, `Lifted protection on "${page.title}"`)}>
+                  Lift
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// src/components/ReviewQueueView.tsx — Edits held for review, with accept/reject for trusted editors
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Check, X } from 'lucide-react';
+import { Button, Badge, Card } from '@/components/ui';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { UserAvatar } from '@/components/UserAvatar';
+import { ChangeList, ChangeTitle } from '@/components/HistoryView';
+import { useFetch, useStore } from '@/hooks';
+import { formatDate } from '@/lib/utils';
+import type { RevisionDiff } from '@/lib/versioning';
+
+interface PendingItem {
+  id: string;
+  title: string;
+  message?: string | null;
+  createdAt: Date;
+  baseVersion: string;
+  metadataChanged: boolean;
+  canReview: boolean;
+  diff: RevisionDiff;
+  author: { id: string; displayName?: string | null; radixAddress: string; avatarUrl?: string | null };
+  page: { id: string; title: string; slug: string; tagPath: string; version: string };
+}
+
+export function ReviewQueueView() {
+  const { data, isLoading, error } = useFetch<PendingItem[]>('/api/review', { transform: d => d.items });
+  const showToast = useStore(s => s.showToast);
+  const [resolved, setResolved] = useState<Set<string>>(new Set());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const review = async (item: PendingItem, action: 'accept' | 'reject') => {
+    setBusyId(item.id);
+    try {
+      const r = await fetch(`/api/review/${item.id}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ action }) });
+      const body = await r.json();
+      if (!r.ok) { alert(body.error || `Failed to ${action} edit`); return; }
+      setResolved(prev => new Set(prev).add(item.id));
+      showToast(action === 'accept' ? `Published "${item.page.title}" v${body.version}` : 'Edit declined', action === 'accept' ? 'success' : 'info');
+    } catch { alert(`Failed to ${action} edit`); }
+    finally { setBusyId(null); }
+  };
+
+  const items = (data ?? []).filter(i => !resolved.has(i.id));
+
+  return (
+    <div className="stack">
+      <Breadcrumbs path={['review']} />
+      <h1>Pending Changes</h1>
+      <p className="text-text-muted text-lg">
+        Edits to reviewed areas of the wiki from contributors below that area&rsquo;s score threshold. They go live once a
+        trusted editor accepts them.
+      </p>
+      {isLoading ? <Card className="empty-state"><p className="text-text-muted">Loading…</p></Card>
+        : error ? <Card className="empty-state"><p className="text-error">Failed to load the review queue</p></Card>
+        : items.length === 0 ? <Card className="empty-state"><p className="text-text-muted">No edits are waiting for review.</p></Card>
+        : items.map(item => {
+          const href = item.page.tagPath ? `/${item.page.tagPath}/${item.page.slug}` : '/';
+          const stale = item.baseVersion !== item.page.version;
+          return (
+            <section key={item.id} className="stack-sm">
+              <div className="spread">
+                <div className="stack-xs">
+                  <Link href={href} className="link font-medium">{item.page.title}</Link>
+                  <span className="row gap-2 text-xs text-text-muted">
+                    <UserAvatar radixAddress={item.author.radixAddress} avatarUrl={item.author.avatarUrl} size="sm" />
+                    {item.author.displayName || item.author.radixAddress.slice(0, 12) + '…'}
+                    · {formatDate(item.createdAt, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    · edited v{item.baseVersion}{stale && ` (page is now v${item.page.version})`}
+                  </span>
+                  {item.message && <span className="text-small text-text-secondary">{item.message}</span>}
+                </div>
+                {item.canReview && (
+                  <div className="row">
+                    <Button size="sm" onClick={() => review(item, 'accept')} disabled={busyId === item.id}><Check size={16} />Accept</Button>
+                    <Button variant="secondary" size="sm" onClick={() => review(item, 'reject')} disabled={busyId === item.id}><X size={16} />Reject</Button>
+                  </div>
+                )}
+              </div>
+              <div className="row gap-2 text-small">
+                <Badge variant="secondary">{item.diff.changeType}</Badge>
+                <span className="text-text-secondary">{item.diff.summary}</span>
+                {item.metadataChanged && <span className="text-text-muted">· metadata updated</span>}
+              </div>
+              {item.diff.titleChanged && <ChangeTitle from={item.page.title} to={item.title} />}
+              <ChangeList changes={item.diff.changes} />
+            </section>
+          );
+        })}
+    </div>
+  );
+}
+
+export default ReviewQueueView;
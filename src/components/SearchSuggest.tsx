@@ -0,0 +1,116 @@
+// src/components/SearchSuggest.tsx — Header search-as-you-type: arrow keys walk pages, categories
+// and contributors matching the typed prefix; Enter jumps straight there, or to full search.
+
+'use client';
+
+import { Fragment, useEffect, useState, type KeyboardEvent, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileText, FolderOpen } from 'lucide-react';
+import { UserAvatar } from '@/components/UserAvatar';
+import Highlight from '@/components/Highlight';
+import { cn, shortenAddress } from '@/lib/utils';
+import type { SearchSuggestions } from '@/types';
+
+const DEBOUNCE_MS = 150;
+
+interface SuggestItem { key: string; group: 'Pages' | 'Categories' | 'People'; label: string; detail: string; href: string; icon: ReactNode }
+
+// Per-tab memo on top of the HTTP cache: backspacing over a prefix redraws instantly.
+const memo = new Map<string, SearchSuggestions>();
+
+function toItems(s: SearchSuggestions): SuggestItem[] {
+  return [
+    ...s.pages.map(p => ({ key: `p:${p.tagPath}/${p.slug}`, group: 'Pages' as const, label: p.title, detail: `/${p.tagPath}/${p.slug}`, href: `/${p.tagPath}/${p.slug}`, icon: <FileText size={16} /> })),
+    ...s.categories.map(c => ({ key: `c:${c.path}`, group: 'Categories' as const, label: c.name, detail: `/${c.path}`, href: `/${c.path}`, icon: <FolderOpen size={16} /> })),
+    ...s.users.map(u => ({
+      key: `u:${u.id}`, group: 'People' as const, label: u.displayName || shortenAddress(u.radixAddress), detail: shortenAddress(u.radixAddress),
+      href: `/leaderboard#u-${u.id}`, icon: <UserAvatar radixAddress={u.radixAddress} avatarUrl={u.avatarUrl} size="sm" />,
+    })),
+  ];
+}
+
+/**
+ * State and key handling for the header search. `active` indexes the items, with one
+ * extra slot past the end for "See all results"; -1 is the input itself, where Enter
+ * runs a full search as it always has.
+ */
+export function useSearchSuggest(query: string, onNavigate: () => void) {
+  const router = useRouter();
+  const prefix = query.trim().toLowerCase();
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [active, setActive] = useState(-1);
+
+  useEffect(() => {
+    setActive(-1);
+    if (prefix.length < 2) { setSuggestions(null); return; }
+    const hit = memo.get(prefix);
+    if (hit) { setSuggestions(hit); return; }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(prefix)}`);
+        if (res.ok && !cancelled) {
+          const data: SearchSuggestions = await res.json();
+          memo.set(prefix, data);
+          setSuggestions(data);
+        }
+      } catch (e) { console.error('Suggest failed:', e); }
+      finally { if (!cancelled) setIsLoading(false); }
+    }, DEBOUNCE_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [prefix]);
+
+  const items = suggestions ? toItems(suggestions) : [];
+  const go = (href: string) => { onNavigate(); router.push(href); };
+  const searchAll = () => { if (query.trim()) go(`/search?q=${encodeURIComponent(query.trim())}`); };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    const slots = items.length + 1;
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActive(i => (i + 1) % slots); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActive(i => (i <= 0 ? slots - 1 : i - 1)); }
+    else if (e.key === 'Enter') {
+      e.preventDefault();
+      const item = items[active];
+      if (item) go(item.href);
+      else searchAll();
+    }
+  };
+
+  const activeId = (listId: string) => (active >= 0 ? `${listId}-${active}` : undefined);
+
+  return { items, isLoading, active, setActive, activeId, onKeyDown, go, searchAll };
+}
+
+export function SuggestList({ id, query, items, active, setActive, go, searchAll }: {
+  id: string; query: string; items: SuggestItem[]; active: number;
+  setActive: (i: number) => void; go: (href: string) => void; searchAll: () => void;
+}) {
+  const typed = query.trim();
+  if (!typed) return null;
+  // Fragments keep every option a direct child of the listbox, as aria-activedescendant expects.
+  return (
+    <div id={id} role="listbox" className="search-results">
+      {items.map((item, i) => (
+        <Fragment key={item.key}>
+          {(i === 0 || items[i - 1]!.group !== item.group) && <div className="search-group" role="presentation">{item.group}</div>}
+          <button type="button" id={`${id}-${i}`} role="option" aria-selected={active === i}
+            onMouseEnter={() => setActive(i)} onMouseDown={e => e.preventDefault()} onClick={() => go(item.href)}
+            className={cn('search-result search-suggestion', active === i && 'search-result-active')}>
+            <span className="text-text-muted shrink-0">{item.icon}</span>
+            <span className="min-w-0">
+              <span className="block font-medium truncate"><Highlight text={item.label} query={typed} /></span>
+              <span className="block text-xs text-text-muted truncate">{item.detail}</span>
+            </span>
+          </button>
+        </Fragment>
+      ))}
+      <button type="button" id={`${id}-${items.length}`} role="option" aria-selected={active === items.length}
+        onMouseEnter={() => setActive(items.length)} onMouseDown={e => e.preventDefault()} onClick={searchAll}
+        className={cn('search-result search-result-all', active === items.length && 'search-result-active')}>
+        See all results for &ldquo;{typed}&rdquo;
+      </button>
+    </div>
+  );
+}
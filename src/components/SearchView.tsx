@@ -6,53 +6,142 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Search, Loader2 } from 'lucide-react';
-import { getMatchSnippet } from '@/lib/utils';
+import { cn, formatDate, getMatchSnippet, shortenAddress } from '@/lib/utils';
+import { searchHighlightText } from '@/lib/search-query';
+import { findTagByPath } from '@/lib/tags';
+import { searchHref, toggleFilter, SECTION_FACET, type Facet, type FacetFilters, type SearchScope } from '@/lib/taxonomy';
+import { useAuth } from '@/hooks';
+import { Badge } from '@/components/ui';
 import Highlight from '@/components/Highlight';
-import type { WikiPage } from '@/types';
+import type { WikiPage, RevisionSearchHit } from '@/types';
 
 const PAGE_SIZE = 25;
+const LOG_SETTLE_MS = 2000;
 
-export default function SearchView({ query: initialQuery }: { query: string }) {
+// Sections chip by name; the emoji marker is for the sidebar.
+const sectionName = (slug: string) => findTagByPath([slug])?.name.replace(/^\p{Emoji_Presentation}\s*/u, '') ?? slug;
+
+const SCOPE_LABELS: Record<SearchScope, string> = { pages: 'Current pages', history: 'Page history' };
+
+// Where a history hit opens: the revision's row in the page history, or the trash for a deleted page.
+function revisionHref(hit: RevisionSearchHit): string {
+  if (hit.page.deleted) return '/trash';
+  return `${hit.page.slug ? `/${hit.page.tagPath}/${hit.page.slug}` : ''}/history#rev-${hit.latest.id}`;
+}
+
+export default function SearchView({ query: initialQuery, filters: initialFilters = {}, scope: initialScope = 'pages' }: {
+  query: string; filters?: FacetFilters; scope?: SearchScope;
+}) {
   const router = useRouter();
+  const { isAuthenticated } = useAuth();
   const [query, setQuery] = useState(initialQuery);
+  const [filters, setFilters] = useState(initialFilters);
+  const [scope, setScope] = useState(initialScope);
+  const [history, setHistory] = useState<RevisionSearchHit[]>([]);
+  const [facets, setFacets] = useState<Facet[]>([]);
   const [results, setResults] = useState<WikiPage[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
   const [isSearching, setIsSearching] = useState(false);
   const [searched, setSearched] = useState('');
+  const [fuzzy, setFuzzy] = useState(false);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => { inputRef.current?.focus(); }, []);
 
-  const performSearch = useCallback(async (q: string, p = 1) => {
+  // History needs a session; until there is one it searches nothing rather than failing.
+  const searchHistory = scope === 'history';
+  const canSearch = !searchHistory || isAuthenticated;
+
+  const performSearch = useCallback(async (q: string, p: number, f: FacetFilters) => {
     const trimmed = q.trim();
-    if (!trimmed) { setResults([]); setTotal(0); setSearched(''); return; }
+    setHistory([]);
+    if (!trimmed || !canSearch) { setResults([]); setTotal(0); setFacets([]); setFuzzy(false); setSuggestion(null); setSearched(''); return; }
     setIsSearching(true);
     try {
-      const res = await fetch(`/api/wiki?${new URLSearchParams({ search: trimmed, page: String(p), pageSize: String(PAGE_SIZE) })}`);
+      if (searchHistory) {
+        const res = await fetch(`/api/search/revisions?${new URLSearchParams({ q: trimmed, page: String(p), pageSize: String(PAGE_SIZE) })}`);
+        if (res.ok) {
+          const data = await res.json();
+          setHistory(data.items || []);
+          setTotal(data.total ?? 0);
+          setResults([]); setFacets([]); setFuzzy(false); setSuggestion(null);
+        }
+        return;
+      }
+      const res = await fetch(`/api/wiki?${new URLSearchParams({ search: trimmed, page: String(p), pageSize: String(PAGE_SIZE), facets: '1', ...f })}`);
       if (res.ok) {
         const data = await res.json();
         setResults(data.items || []);
         setTotal(data.total ?? (data.items || []).length);
+        setFacets(data.facets || []);
+        setFuzzy(!!data.fuzzy);
+        setSuggestion(data.suggestion ?? null);
       }
     } catch (e) { console.error('Search failed:', e); }
     finally { setIsSearching(false); setSearched(trimmed); }
-  }, []);
+  }, [searchHistory, canSearch]);
 
   useEffect(() => {
     setPage(1);
-    const timer = setTimeout(() => performSearch(query, 1), 300);
+    const timer = setTimeout(() => performSearch(query, 1, filters), 300);
     return () => clearTimeout(timer);
-  }, [query, performSearch]);
+  }, [query, filters, performSearch]);
+
+  // Analytics get the searches a reader settled on, not every pause while typing: a query
+  // is logged once it has stood a moment, or straight away when a result is opened.
+  const logged = useRef<{ query: string; id: Promise<string | null> } | null>(null);
+  const logSearch = useCallback((q: string) => {
+    if (logged.current?.query !== q) {
+      const id = fetch('/api/search/log', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ query: q }) })
+        .then(res => (res.ok ? res.json() : { id: null }))
+        .then((data: { id: string | null }) => data.id)
+        .catch(() => null);
+      logged.current = { query: q, id };
+    }
+    return logged.current.id;
+  }, []);
+
+  useEffect(() => {
+    if (!searched || searchHistory) return;
+    const timer = setTimeout(() => logSearch(searched), LOG_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [searched, searchHistory, logSearch]);
+
+  const openResult = async (pageId: string, index: number) => {
+    const id = await logSearch(searched);
+    if (!id) return;
+    fetch(`/api/search/log/${id}`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, keepalive: true,
+      body: JSON.stringify({ pageId, rank: (page - 1) * PAGE_SIZE + index + 1 }),
+    }).catch(() => {});
+  };
 
   const totalPages = Math.ceil(total / PAGE_SIZE);
-  const goToPage = (p: number) => { setPage(p); performSearch(query, p); window.scrollTo({ top: 0 }); };
+  const highlight = searchHighlightText(suggestion ?? searched);
+  const goToPage = (p: number) => { setPage(p); performSearch(query, p, filters); window.scrollTo({ top: 0 }); };
 
   const submit = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmed = query.trim();
-    if (trimmed) router.replace(`/search?q=${encodeURIComponent(trimmed)}`);
-    performSearch(query);
+    if (trimmed) router.replace(searchHref(trimmed, filters, scope));
+    performSearch(query, 1, filters);
+  };
+
+  // Every chip is its own off-switch; the URL carries the narrowing so it can be shared.
+  const toggle = (key: string, value: string) => {
+    const next = toggleFilter(filters, key, value);
+    setFilters(next);
+    router.replace(searchHref(query.trim(), next, scope), { scroll: false });
+  };
+
+  // Facets describe current pages, so history starts unfiltered.
+  const switchScope = (next: SearchScope) => {
+    const kept = next === 'pages' ? filters : {};
+    setScope(next);
+    setFilters(kept);
+    router.replace(searchHref(query.trim(), kept, next), { scroll: false });
   };
 
   return (
@@ -70,25 +159,67 @@ export default function SearchView({ query: initialQuery }: { query: string }) {
         />
         {isSearching && <Loader2 className="search-icon-right" size={18} />}
       </form>
+      <p className="text-xs text-text-muted">
+        Narrow with <code>tag:ecosystem</code>, <code>status:Active</code>, <code>author:name</code> or <code>updated:&gt;2026-01-01</code>;
+        use <code>&quot;exact phrase&quot;</code>, <code>prefix*</code>, <code>-exclude</code> and <code>OR</code>.
+        {searchHistory && <> In page history, <code>author:</code> and <code>updated:</code> mean who made a revision and when.</>}
+      </p>
+
+      {(isAuthenticated || searchHistory) && (
+        <div className="row gap-2" role="radiogroup" aria-label="Search in">
+          {(Object.keys(SCOPE_LABELS) as SearchScope[]).map(s => (
+            <button key={s} type="button" role="radio" aria-checked={scope === s} onClick={() => switchScope(s)} className={cn('facet-chip', scope === s && 'facet-chip-active')}>
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!canSearch && <p className="text-text-muted text-small">Connect your wallet to search page history, including text that has since been removed.</p>}
 
       {searched && !isSearching && (
         <p className="text-text-muted text-small">
-          {total === 0
-            ? <>No pages found for &ldquo;{searched}&rdquo;.</>
+          {fuzzy
+            ? <>No exact matches for &ldquo;{searched}&rdquo;. Showing similar pages.</>
+            : total === 0
+            ? <>No {searchHistory ? 'revisions' : 'pages'} found for &ldquo;{searched}&rdquo;.</>
+            : searchHistory
+            ? <>{total} page{total === 1 ? '' : 's'} with revisions matching &ldquo;{searched}&rdquo;.</>
             : <>{total} result{total === 1 ? '' : 's'} for &ldquo;{searched}&rdquo;.</>}
+          {suggestion && (
+            <> Did you mean <button type="button" className="link font-medium" onClick={() => setQuery(suggestion)}>{suggestion}</button>?</>
+          )}
         </p>
       )}
 
+      {facets.length > 0 && (
+        <div className="category-filters">
+          {facets.map(facet => (
+            <div key={facet.key} className="facet-row">
+              <span className="facet-label">{facet.label}</span>
+              {facet.values.map(({ value, count }) => {
+                const active = filters[facet.key] === value;
+                return (
+                  <button key={value} type="button" onClick={() => toggle(facet.key, value)} className={cn('facet-chip', active && 'facet-chip-active')} aria-pressed={active}>
+                    {facet.key === SECTION_FACET ? sectionName(value) : value}<span className="facet-count">{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
       {results.length > 0 && (
         <ul className="stack-sm list-none pl-0">
-          {results.map(page => {
-            const snippet = getMatchSnippet(page.content, searched, 220);
+          {results.map((page, i) => {
+            const snippet = getMatchSnippet(page.content, highlight, 220);
             return (
               <li key={page.id}>
-                <Link href={`/${page.tagPath}/${page.slug}`} className="search-page-result">
-                  <div className="font-medium"><Highlight text={page.title} query={searched} /></div>
+                <Link href={`/${page.tagPath}/${page.slug}`} className="search-page-result" onClick={() => openResult(page.id, i)}>
+                  <div className="font-medium"><Highlight text={page.title} query={highlight} /></div>
                   <div className="text-small text-text-muted truncate">/{page.tagPath}/{page.slug}</div>
-                  {snippet && <p className="text-small text-text-muted line-clamp-2 mt-1"><Highlight text={snippet} query={searched} /></p>}
+                  {snippet && <p className="text-small text-text-muted line-clamp-2 mt-1"><Highlight text={snippet} query={highlight} /></p>}
                 </Link>
               </li>
             );
@@ -96,6 +227,27 @@ export default function SearchView({ query: initialQuery }: { query: string }) {
         </ul>
       )}
 
+      {history.length > 0 && (
+        <ul className="stack-sm list-none pl-0">
+          {history.map(hit => (
+            <li key={hit.page.id}>
+              <Link href={revisionHref(hit)} className="search-page-result">
+                <div className="row gap-2 font-medium">
+                  <Highlight text={hit.latest.title} query={highlight} />
+                  {hit.page.deleted && <Badge variant="danger">deleted page</Badge>}
+                  {hit.current === false && !hit.page.deleted && <Badge variant="warning">removed since</Badge>}
+                </div>
+                <div className="text-small text-text-muted">
+                  v{hit.latest.version} · {formatDate(hit.latest.createdAt)} · {hit.latest.author.displayName || shortenAddress(hit.latest.author.radixAddress)}
+                  {hit.matches > 1 && ` · first in v${hit.earliest.version} (${formatDate(hit.earliest.createdAt)}), ${hit.matches} matching revisions`}
+                </div>
+                {hit.snippet && <p className="text-small text-text-muted line-clamp-2 mt-1"><Highlight text={hit.snippet} query={highlight} /></p>}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {totalPages > 1 && (
         <nav className="row justify-center gap-4" aria-label="Search results pages">
           <button className="link disabled:opacity-40" disabled={page <= 1 || isSearching} onClick={() => goToPage(page - 1)}>← Previous</button>
@@ -4,7 +4,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Trophy, BarChart3, ChevronRight, ChevronDown, ListTree, Wrench } from 'lucide-react';
+import { Home, Trophy, BarChart3, ChevronRight, ChevronDown, ListTree, Wrench, ClipboardCheck } from 'lucide-react';
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { cn } from '@/lib/utils';
 import { useStore, useIsMobile, usePagePath, useAuth } from '@/hooks';
@@ -135,6 +135,7 @@ export function Sidebar() {
             <NavItem href="/leaderboard" icon={<Trophy size={18} />} label="Leaderboard" isActive={pathname === '/leaderboard'} onNavigate={closeMobile} />
             {/* Editorial work queues — reader nav stays free of maintenance machinery. */}
             {isAuthenticated && <NavItem href="/maintenance" icon={<Wrench size={18} />} label="Maintenance" isActive={pathname === '/maintenance'} onNavigate={closeMobile} />}
+            {isAuthenticated && <NavItem href="/review" icon={<ClipboardCheck size={18} />} label="Pending Changes" isActive={pathname === '/review'} onNavigate={closeMobile} />}
           </nav>
         </div>
 
@@ -0,0 +1,128 @@
+// src/components/SynonymsView.tsx — Admin page for the synonym groups search expands queries with
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Replace } from 'lucide-react';
+import { Badge, Button, Input } from '@/components/ui';
+import { useAuth, useFetch, useStore } from '@/hooks';
+import { formatDate } from '@/lib/utils';
+
+interface SynonymGroup { id: string; terms: string[]; updatedAt: string; }
+
+const splitTerms = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+export default function SynonymsView() {
+  const { isAuthenticated } = useAuth();
+  const showToast = useStore(s => s.showToast);
+  const [reload, setReload] = useState(0);
+  const { data, isLoading, error } = useFetch<{ items: SynonymGroup[] }>(isAuthenticated ? `/api/admin/synonyms?v=${reload}` : null);
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="stack">
+        <h1>Search Synonyms</h1>
+        <p className="text-text-muted">Connect your wallet to manage search synonyms.</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="stack">
+        <h1>Search Synonyms</h1>
+        <p className="text-error">Access denied or failed to load synonyms.</p>
+      </div>
+    );
+  }
+
+  async function send(method: 'PUT' | 'DELETE', init: { query?: string; body?: Record<string, unknown> }, done: string) {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/synonyms${init.query ?? ''}`, {
+        method, headers: { 'Content-Type': 'application/json' }, body: init.body && JSON.stringify(init.body),
+      });
+      if (!res.ok) { alert((await res.json()).error || 'Failed to save synonyms'); return false; }
+      showToast(done);
+      setReload(n => n + 1);
+      return true;
+    } catch { alert('Failed to save synonyms'); return false; }
+    finally { setSaving(false); }
+  }
+
+  async function handleAdd() {
+    if (await send('PUT', { body: { terms: splitTerms(draft) } }, 'Synonyms added')) setDraft('');
+  }
+
+  async function handleSave() {
+    if (!editing) return;
+    if (await send('PUT', { body: { id: editing.id, terms: splitTerms(editing.value) } }, 'Synonyms saved')) setEditing(null);
+  }
+
+  return (
+    <div className="stack">
+      <div className="stack-sm">
+        <div className="row">
+          <Replace size={24} className="text-accent" />
+          <h1>Search Synonyms</h1>
+        </div>
+        <p className="text-text-muted">
+          Names for the same thing. Searching for any name in a group also finds pages that use the others, and{' '}
+          <code>/go/&lt;name&gt;</code> opens the page titled with any of them. Names that belong to one page are better
+          set as its &ldquo;Also known as&rdquo; field.
+        </p>
+      </div>
+
+      <div className="surface rounded-lg p-4 stack-sm">
+        <h2 className="text-small text-text-muted uppercase tracking-wide">Add a group</h2>
+        <Input placeholder="Comma-separated names, e.g. XRD, Radix token" value={draft} onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && splitTerms(draft).length > 1) handleAdd(); }} />
+        <div>
+          <Button size="sm" onClick={handleAdd} disabled={saving || splitTerms(draft).length < 2}>
+            {saving ? 'Saving…' : 'Add synonyms'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="surface rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-surface-2"><h2>Synonym groups</h2></div>
+        {isLoading && !data ? (
+          <div className="p-4"><div className="h-10 skeleton rounded" /></div>
+        ) : !data?.items.length ? (
+          <p className="p-4 text-text-muted">No synonyms yet.</p>
+        ) : (
+          <div className="divide-y divide-border-muted">
+            {data.items.map(group => editing?.id === group.id ? (
+              <div key={group.id} className="row p-3 gap-3">
+                <Input className="flex-1" value={editing.value} autoFocus onChange={e => setEditing({ id: group.id, value: e.target.value })}
+                  onKeyDown={e => { if (e.key === 'Enter') handleSave(); else if (e.key === 'Escape') setEditing(null); }} />
+                <Button size="sm" onClick={handleSave} disabled={saving || splitTerms(editing.value).length < 2}>Save</Button>
+                <Button variant="secondary" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+              </div>
+            ) : (
+              <div key={group.id} className="spread p-3 gap-3">
+                <div className="stack-xs min-w-0">
+                  <span className="row flex-wrap gap-1">
+                    {group.terms.map(term => <Link key={term} href={`/go/${encodeURIComponent(term)}`}><Badge>{term}</Badge></Link>)}
+                  </span>
+                  <span className="text-xs text-text-muted">Updated {formatDate(group.updatedAt)}</span>
+                </div>
+                <div className="row">
+                  <Button variant="secondary" size="sm" disabled={saving} onClick={() => setEditing({ id: group.id, value: group.terms.join(', ') })}>Edit</Button>
+                  <Button variant="secondary" size="sm" disabled={saving}
+                    onClick={() => send('DELETE', { query: `?id=${group.id}` }, `Removed "${group.terms.join(', ')}"`)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
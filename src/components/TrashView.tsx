@@ -0,0 +1,76 @@
+// src/components/TrashView.tsx — Deleted pages, restorable until the retention window lapses
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button, Card } from '@/components/ui';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { useAuth, useFetch, useStore } from '@/hooks';
+import { formatDate } from '@/lib/utils';
+
+interface TrashedPage {
+  id: string;
+  title: string;
+  tagPath: string;
+  slug: string;
+  version: string;
+  deletedAt: Date;
+  purgeAt: Date;
+  deletedBy: { id: string; displayName: string | null; radixAddress: string } | null;
+}
+
+export function TrashView() {
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const { data, isLoading, error } = useFetch<{ retentionDays: number; items: TrashedPage[] }>(isAuthenticated ? '/api/trash' : null);
+  const showToast = useStore(s => s.showToast);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const restore = async (page: TrashedPage) => {
+    setBusyId(page.id);
+    try {
+      const r = await fetch(`/api/trash/${page.id}`, { method: 'POST' });
+      if (r.ok) { showToast(`Restored "${page.title}"`); router.push(`/${page.tagPath}/${page.slug}`); }
+      else { alert((await r.json()).error || 'Failed to restore'); setBusyId(null); }
+    } catch { alert('Failed to restore'); setBusyId(null); }
+  };
+
+  return (
+    <div className="stack">
+      <Breadcrumbs path={['trash']} />
+      <h1>Trash</h1>
+      <p className="text-text-muted text-lg">
+        Pages you deleted, with their full history and comments. Restore one to put it back at its old address;
+        {data ? ` after ${data.retentionDays} days` : ' after the retention window'} it is removed for good.
+      </p>
+      {!isAuthenticated ? <Card className="empty-state"><p className="text-text-muted">Connect your wallet to see pages you deleted.</p></Card>
+        : isLoading ? <Card className="empty-state"><p className="text-text-muted">Loading…</p></Card>
+        : error ? <Card className="empty-state"><p className="text-error">Failed to load the trash</p></Card>
+        : !data?.items.length ? <Card className="empty-state"><p className="text-text-muted">The trash is empty.</p></Card>
+        : (
+          <div className="surface divide-y divide-border-muted">
+            {data.items.map(page => (
+              <div key={page.id} className="spread p-3 gap-3">
+                <div className="stack-xs min-w-0">
+                  <span className="font-medium truncate">{page.title}</span>
+                  <span className="text-xs text-text-muted">
+                    /{page.tagPath}/{page.slug} · v{page.version} · deleted {formatDate(page.deletedAt)}
+                    {page.deletedBy && ` by ${page.deletedBy.displayName || page.deletedBy.radixAddress.slice(0, 12) + '…'}`}
+                    {' · '}purged {formatDate(page.purgeAt)}
+                  </span>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => restore(page)} disabled={busyId === page.id}>
+                  <RotateCcw size={16} />{busyId === page.id ? 'Restoring…' : 'Restore'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      <p className="row text-small text-text-muted"><Trash2 size={14} />Deleting a page from its editor moves it here.</p>
+    </div>
+  );
+}
+
+export default TrashView;
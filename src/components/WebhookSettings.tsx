@@ -3,12 +3,14 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Plus, Trash2, Copy, Check, Loader2, ExternalLink, Bell, BellOff } from 'lucide-react';
+import { Plus, Trash2, Copy, Check, Loader2, ExternalLink, Bell, BellOff, ScrollText, RotateCcw, KeyRound } from 'lucide-react';
 import { usePathname } from 'next/navigation';
-import { Button } from '@/components/ui';
-import { cn } from '@/lib/utils';
-import { useStore } from '@/hooks';
-import { findTagByPath, isValidTagPath } from '@/lib/tags';
+import { Badge, Button } from '@/components/ui';
+import { cn, formatDate, formatRelativeTime } from '@/lib/utils';
+import { useFetch, useStore } from '@/hooks';
+import { findTagByPath, isValidTagPath, getMetadataKeys } from '@/lib/tags';
+import { searchFacetKeys } from '@/lib/taxonomy';
+import type { WebhookFilters } from '@/lib/webhook-filters';
 
 interface Webhook {
   id: string;
@@ -16,15 +18,39 @@ interface Webhook {
   secret: string;
   events: string[];
   tagPathFilter: string | null;
+  includeDiff: boolean;
+  filters: WebhookFilters | null;
   active: boolean;
+  disabledAt: string | null;
+  previousSecretExpiresAt: string | null;
 }
 
+interface Delivery {
+  id: string;
+  event: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+const DELIVERY_BADGE = {
+  succeeded: { variant: 'success', label: 'delivered' },
+  pending: { variant: 'warning', label: 'retrying' },
+  failed: { variant: 'danger', label: 'failed' },
+} as const;
+
 interface TelegramSub {
   id: string;
   chatId: string;
   events: string[];
   tagPath: string;
   pageSlug: string;
+  filters: WebhookFilters | null;
   active: boolean;
 }
 
@@ -38,9 +64,50 @@ const EVENT_OPTIONS = [
   { value: 'page.created', label: 'Page created' },
   { value: 'page.updated', label: 'Page updated' },
   { value: 'page.deleted', label: 'Page deleted' },
+  { value: 'page.restored', label: 'Page restored' },
+  { value: 'page.moved', label: 'Page moved' },
+  { value: 'page.verified', label: 'Page verified (not sent yet)' },
+  { value: 'metadata.changed', label: 'Metadata changed' },
   { value: 'comment.created', label: 'Comment created' },
+  { value: 'comment.deleted', label: 'Comment deleted' },
+  { value: 'ledger.backup.confirmed', label: 'Ledger backup confirmed' },
+  { value: 'airdrop.recorded', label: 'Airdrop recorded' },
 ] as const;
 
+/** The create form's filter fields; pages are comma-separated, metadata one select key and option. */
+const EMPTY_FILTER_FORM = { skipPatches: false, excludeOwn: false, pages: '', metadataKey: '', metadataValue: '', transition: false };
+type FilterForm = typeof EMPTY_FILTER_FORM;
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+function buildFilters(form: FilterForm): WebhookFilters {
+  return {
+    skipChangeTypes: form.skipPatches ? ['patch'] : [],
+    pages: splitList(form.pages),
+    metadata: form.metadataKey && form.metadataValue
+      ? [{ key: form.metadataKey, value: form.metadataValue, transition: form.transition }]
+      : [],
+    excludeOwn: form.excludeOwn,
+  };
+}
+
+/** The select keys a metadata filter can use: the tag filter's own, or every section's. */
+function filterKeysFor(tagPath: string) {
+  const segments = tagPath.split('/').filter(Boolean);
+  const keys = segments.length && isValidTagPath(segments) ? getMetadataKeys(segments) : searchFacetKeys();
+  return keys.filter(k => k.type === 'select' && k.options?.length);
+}
+
+function describeFilters(filters: WebhookFilters | null): string {
+  if (!filters) return '';
+  return [
+    filters.skipChangeTypes?.length && `no ${filters.skipChangeTypes.join('/')} edits`,
+    filters.pages?.length && (filters.pages.length === 1 ? filters.pages[0] : `${filters.pages.length} pages`),
+    ...(filters.metadata ?? []).map(m => `${m.key} ${m.transition ? 'becomes' : 'is'} ${m.value}`),
+    filters.excludeOwn && 'not my own',
+  ].filter(Boolean).join(' · ');
+}
+
 /** Parse the current pathname into tagPath + slug context */
 function parseCurrentContext(pathname: string): { tagPath: string; slug: string | null; label: string } | null {
   const segments = pathname.split('/').filter(Boolean);
@@ -51,7 +118,7 @@ function parseCurrentContext(pathname: string): { tagPath: string; slug: string
   if (segments.length === 1 && staticPages.has(segments[0]!)) return null;
 
   // Strip suffix (edit, history)
-  const suffixes = new Set(['edit', 'history', 'mdx']);
+  const suffixes = new Set(['edit', 'history', 'blame', 'mdx']);
   const clean = suffixes.has(segments.at(-1)!) ? segments.slice(0, -1) : segments;
   if (clean.length === 0) return null;
 
@@ -149,6 +216,15 @@ function TelegramSection() {
     setSubscribing(false);
   };
 
+  const handleExcludeOwn = async (sub: TelegramSub, excludeOwn: boolean) => {
+    const res = await fetch('/api/telegram', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tagPath: sub.tagPath, pageSlug: sub.pageSlug, events: sub.events, filters: { ...sub.filters, excludeOwn } }),
+    });
+    if (res.ok) await fetchState();
+  };
+
   const handleUnsubscribe = async (id: string) => {
     const res = await fetch(`/api/telegram?id=${id}`, { method: 'DELETE' });
     if (res.ok) {
@@ -227,6 +303,10 @@ function TelegramSection() {
                     <div className="row flex-wrap gap-1 mt-0.5">
                       {sub.events.map(e => <span key={e} className="badge">{e.replace('.', ' ')}</span>)}
                     </div>
+                    <label className="row gap-1.5 mt-0.5 text-xs text-text-muted">
+                      <input type="checkbox" checked={sub.filters?.excludeOwn ?? false} onChange={e => handleExcludeOwn(sub, e.target.checked)} className="w-3.5 h-3.5 rounded border-border" />
+                      Not my own edits
+                    </label>
                   </div>
                   <button onClick={() => handleUnsubscribe(sub.id)} className="icon-btn text-text-muted hover:text-error" title="Unsubscribe" aria-label="Unsubscribe">
                     <Trash2 size={14} />
@@ -251,6 +331,65 @@ function TelegramSection() {
   );
 }
 
+// ===== Delivery Log =====
+
+function DeliveryLog({ webhookId, active }: { webhookId: string; active: boolean }) {
+  const [reload, setReload] = useState(0);
+  const { data } = useFetch<{ items: Delivery[] }>(`/api/webhooks/${webhookId}/deliveries?v=${reload}`);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+  const showToast = useStore(s => s.showToast);
+  const deliveries = data?.items;
+
+  const handleRedeliver = async (id: string) => {
+    setRedelivering(id);
+    const res = await fetch(`/api/webhooks/${webhookId}/deliveries/${id}`, { method: 'POST' });
+    if (res.ok) {
+      const delivery: Delivery = await res.json();
+      showToast(delivery.status === 'succeeded' ? 'Redelivered' : 'Redelivery failed — it will be retried');
+      setReload(n => n + 1);
+    } else {
+      showToast((await res.json()).error || 'Failed to redeliver');
+    }
+    setRedelivering(null);
+  };
+
+  if (!deliveries) return <div className="webhook-empty"><Loader2 size={14} className="animate-spin" /></div>;
+  if (deliveries.length === 0) return <p className="text-xs text-text-muted">No deliveries yet.</p>;
+
+  return (
+    <div className="webhook-deliveries">
+      {deliveries.map(d => (
+        <details key={d.id} className="webhook-delivery">
+          <summary className="spread gap-2">
+            <span className="row gap-1.5 min-w-0">
+              <Badge variant={DELIVERY_BADGE[d.status].variant}>{DELIVERY_BADGE[d.status].label}</Badge>
+              <span className="text-xs truncate">{d.event}</span>
+            </span>
+            <span className="text-xs text-text-muted shrink-0">{formatRelativeTime(d.createdAt)}</span>
+          </summary>
+          <div className="stack-xs text-xs text-text-muted pt-1">
+            <div>
+              {d.responseStatus ?? 'No response'}
+              {d.durationMs !== null && ` · ${d.durationMs} ms`}
+              {` · ${d.attempts} ${d.attempts === 1 ? 'attempt' : 'attempts'}`}
+              {d.status === 'pending' && d.nextAttemptAt && ` · next ${formatRelativeTime(d.nextAttemptAt)}`}
+            </div>
+            {d.error && <div className="text-error">{d.error}</div>}
+            {d.responseBody && <pre className="webhook-response">{d.responseBody}</pre>}
+            {active && (
+              <div>
+                <Button variant="ghost" size="sm" onClick={() => handleRedeliver(d.id)} isLoading={redelivering === d.id}>
+                  <RotateCcw size={12} />Redeliver
+                </Button>
+              </div>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
 // ===== Webhooks Section =====
 
 export function WebhookSettings() {
@@ -263,6 +402,11 @@ export function WebhookSettings() {
   const [url, setUrl] = useState('https://');
   const [events, setEvents] = useState<string[]>(['page.created', 'page.updated']);
   const [tagFilter, setTagFilter] = useState('');
+  const [includeDiff, setIncludeDiff] = useState(false);
+  const [filterForm, setFilterForm] = useState<FilterForm>(EMPTY_FILTER_FORM);
+  const filterKeys = filterKeysFor(tagFilter);
+  const filterKey = filterKeys.find(k => k.key === filterForm.metadataKey);
+  const [logFor, setLogFor] = useState<string | null>(null);
   const [error, setError] = useState('');
   const showToast = useStore(s => s.showToast);
 
@@ -293,7 +437,7 @@ export function WebhookSettings() {
     const res = await fetch('/api/webhooks', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url, events, tagPathFilter: tagFilter || undefined }),
+      body: JSON.stringify({ url, events, tagPathFilter: tagFilter || undefined, includeDiff: includeDiff && events.includes('page.updated'), filters: buildFilters(filterForm) }),
     });
 
     if (res.ok) {
@@ -303,6 +447,8 @@ export function WebhookSettings() {
       setUrl('https://');
       setEvents(['page.created', 'page.updated']);
       setTagFilter('');
+      setIncludeDiff(false);
+      setFilterForm(EMPTY_FILTER_FORM);
       await fetchWebhooks();
     } else {
       const data = await res.json();
@@ -319,6 +465,41 @@ export function WebhookSettings() {
     }
   };
 
+  const handleEnable = async (id: string) => {
+    const res = await fetch(`/api/webhooks/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: true }),
+    });
+    if (res.ok) {
+      const updated: Webhook = await res.json();
+      setWebhooks(prev => prev.map(w => (w.id === id ? updated : w)));
+      showToast('Webhook turned back on');
+    }
+  };
+
+  const handleIncludeDiff = async (id: string, include: boolean) => {
+    const res = await fetch(`/api/webhooks/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ includeDiff: include }),
+    });
+    if (res.ok) {
+      const updated: Webhook = await res.json();
+      setWebhooks(prev => prev.map(w => (w.id === id ? updated : w)));
+    }
+  };
+
+  const handleRotate = async (id: string) => {
+    if (!confirm('Issue a new signing secret? The current one keeps working for 24 hours while you update your receiver.')) return;
+    const res = await fetch(`/api/webhooks/${id}/secret`, { method: 'POST' });
+    if (res.ok) {
+      const rotated: Webhook = await res.json();
+      setNewSecret(rotated.secret);
+      setWebhooks(prev => prev.map(w => (w.id === id ? { ...rotated, secret: `...${rotated.secret.slice(-8)}` } : w)));
+    }
+  };
+
   const copySecret = () => {
     if (newSecret) {
       navigator.clipboard.writeText(newSecret);
@@ -373,7 +554,31 @@ export function WebhookSettings() {
                       {w.events.map(e => <span key={e} className="badge">{e.replace('.', ' ')}</span>)}
                     </div>
                     {w.tagPathFilter && <div className="text-xs text-text-muted">Filter: {w.tagPathFilter}</div>}
+                    {w.filters && <div className="text-xs text-text-muted">Only: {describeFilters(w.filters)}</div>}
+                    {w.events.includes('page.updated') && (
+                      <label className="row gap-1.5 text-xs text-text-muted">
+                        <input type="checkbox" checked={w.includeDiff} onChange={e => handleIncludeDiff(w.id, e.target.checked)} className="w-3.5 h-3.5 rounded border-border" />
+                        Include block changes in page updates
+                      </label>
+                    )}
+                    {w.previousSecretExpiresAt && (
+                      <div className="text-xs text-text-muted">Previous secret also signs until {formatDate(w.previousSecretExpiresAt, { hour: 'numeric', minute: '2-digit' })}</div>
+                    )}
+                    {!w.active && (
+                      <div className="row gap-2 text-xs text-error">
+                        {w.disabledAt ? `Turned off ${formatRelativeTime(w.disabledAt)} after repeated failed deliveries` : 'Paused'}
+                        <button onClick={() => handleEnable(w.id)} className="text-accent hover:underline cursor-pointer">Turn on</button>
+                      </div>
+                    )}
+                    {logFor === w.id && <DeliveryLog webhookId={w.id} active={w.active} />}
                   </div>
+                  <button onClick={() => setLogFor(logFor === w.id ? null : w.id)} className={cn('icon-btn text-text-muted hover:text-text', logFor === w.id && 'text-accent')}
+                    title="Delivery log" aria-label="Delivery log" aria-expanded={logFor === w.id}>
+                    <ScrollText size={14} />
+                  </button>
+                  <button onClick={() => handleRotate(w.id)} className="icon-btn text-text-muted hover:text-text" title="Rotate signing secret" aria-label="Rotate signing secret">
+                    <KeyRound size={14} />
+                  </button>
                   <button onClick={() => handleDelete(w.id)} className="icon-btn text-text-muted hover:text-error" title="Delete webhook" aria-label="Delete webhook">
                     <Trash2 size={14} />
                   </button>
@@ -411,6 +616,45 @@ export function WebhookSettings() {
                 <label className="text-small font-medium">Tag path filter <span className="text-text-muted font-normal">(optional)</span></label>
                 <input value={tagFilter} onChange={e => setTagFilter(e.target.value)} className="input text-small" placeholder="e.g. contents/tech" />
               </div>
+              <div className="stack-xs">
+                <label className="text-small font-medium">Only pages <span className="text-text-muted font-normal">(optional, comma-separated)</span></label>
+                <input value={filterForm.pages} onChange={e => setFilterForm(f => ({ ...f, pages: e.target.value }))} className="input text-small" placeholder="e.g. contents/tech/scrypto" />
+              </div>
+              <div className="stack-xs">
+                <label className="text-small font-medium">Metadata <span className="text-text-muted font-normal">(optional)</span></label>
+                <div className="row gap-2">
+                  <select value={filterForm.metadataKey} onChange={e => setFilterForm(f => ({ ...f, metadataKey: e.target.value, metadataValue: '' }))} className="input text-small" aria-label="Metadata key">
+                    <option value="">Any metadata</option>
+                    {filterKeys.map(k => <option key={k.key} value={k.key}>{k.label.replace(/:$/, '')}</option>)}
+                  </select>
+                  {filterKey && (
+                    <select value={filterForm.metadataValue} onChange={e => setFilterForm(f => ({ ...f, metadataValue: e.target.value }))} className="input text-small" aria-label="Metadata value">
+                      <option value="">Choose a value</option>
+                      {filterKey.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                  )}
+                </div>
+                {filterForm.metadataValue && (
+                  <label className="row gap-2 text-small">
+                    <input type="checkbox" checked={filterForm.transition} onChange={e => setFilterForm(f => ({ ...f, transition: e.target.checked }))} className="w-4 h-4 rounded border-border" />
+                    Only when a change sets it (needs Metadata changed)
+                  </label>
+                )}
+              </div>
+              <label className="row gap-2 text-small">
+                <input type="checkbox" checked={filterForm.skipPatches} onChange={e => setFilterForm(f => ({ ...f, skipPatches: e.target.checked }))} className="w-4 h-4 rounded border-border" />
+                Skip patch edits
+              </label>
+              <label className="row gap-2 text-small">
+                <input type="checkbox" checked={filterForm.excludeOwn} onChange={e => setFilterForm(f => ({ ...f, excludeOwn: e.target.checked }))} className="w-4 h-4 rounded border-border" />
+                Skip my own edits
+              </label>
+              {events.includes('page.updated') && (
+                <label className="row gap-2 text-small">
+                  <input type="checkbox" checked={includeDiff} onChange={e => setIncludeDiff(e.target.checked)} className="w-4 h-4 rounded border-border" />
+                  Include block changes in page updates
+                </label>
+              )}
               {error && <p className="text-error text-small">{error}</p>}
               <div className="row justify-end gap-2">
                 <Button variant="ghost" size="sm" onClick={() => { setShowForm(false); setError(''); }}>Cancel</Button>
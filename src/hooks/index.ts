@@ -75,13 +75,14 @@ export function usePagePath() {
   const last = segments[segments.length - 1];
   const isEdit = last === 'edit';
   const isHistory = last === 'history';
-  const viewSegs = (isEdit || isHistory) ? segments.slice(0, -1) : segments;
+  const isBlame = last === 'blame';
+  const viewSegs = (isEdit || isHistory || isBlame) ? segments.slice(0, -1) : segments;
   const isHomepage = viewSegs.length === 0;
   const isPage = !isHomepage && !isValidTagPath(viewSegs) && viewSegs.length >= 2;
   const viewPath = isHomepage ? '/' : `/${viewSegs.join('/')}`;
   const tagPath = isPage ? viewSegs.slice(0, -1).join('/') : null;
   const slug = isPage ? viewSegs[viewSegs.length - 1] : null;
-  return { isHomepage, isPage, isEdit, isHistory, viewPath, tagPath, slug };
+  return { isHomepage, isPage, isEdit, isHistory, isBlame, viewPath, tagPath, slug };
 }
 
 // ========== STORE ==========
@@ -0,0 +1,8 @@
+// src/instrumentation.ts — Server startup: runs the webhook retry and search index workers in the Node.js runtime
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const [{ startDeliveryWorker }, { startSearchIndexWorker }] = await Promise.all([import('@/lib/webhooks'), import('@/lib/search-index')]);
+  startDeliveryWorker();
+  startSearchIndexWorker();
+}
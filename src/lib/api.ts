@@ -15,6 +15,7 @@ export const errors = {
   forbidden: (msg = 'Forbidden') => json({ error: msg }, 403),
   notFound: (msg = 'Not found') => json({ error: msg }, 404),
   badRequest: (msg: string) => json({ error: msg }, 400),
+  conflict: (msg: string, details?: Record<string, unknown>) => json({ error: msg, ...details }, 409),
   internal: (msg = 'Internal server error') => json({ error: msg }, 500),
 } as const;
 
@@ -16,6 +16,7 @@ const JWT_SECRET = new TextEncoder().encode(
 );
 const SESSION_COOKIE = 'radix_wiki_session';
 const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000;
+const ADMIN_ADDRESS = process.env.ADMIN_ADDRESS || '';
 
 interface SessionPayload extends JWTPayload {
   userId: string;
@@ -92,6 +93,9 @@ export async function getSession(request?: NextRequest): Promise<AuthSession | n
   return null;
 }
 
+/** The wiki's single admin account, configured by `ADMIN_ADDRESS`; nobody is admin when it is unset. */
+export const isAdmin = (session: AuthSession): boolean => !!ADMIN_ADDRESS && session.radixAddress === ADMIN_ADDRESS;
+
 export async function destroySession(): Promise<void> {
   const cookieStore = await cookies();
   const token = cookieStore.get(SESSION_COOKIE)?.value;
@@ -1,4 +1,4 @@
-// src/lib/content.ts — shared HTML-to-text extraction for LLM/MCP exports
+// src/lib/content.ts — shared HTML-to-text extraction for LLM/MCP exports and search embeddings
 import type { Block, AtomicBlock } from '@/types/blocks';
 
 export function stripHtml(html: string): string {
@@ -26,6 +26,42 @@ function extractAtomicText(block: AtomicBlock): string {
   return '';
 }
 
+export interface TextChunk { heading: string | null; text: string; }
+
+const HEADING = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+const CHUNK_MAX_CHARS = 1500;
+
+// Paragraphs packed up to `max`; a paragraph longer than that is cut at word boundaries.
+function splitText(text: string, max: number): string[] {
+  const pieces = text.split(/\n+/).flatMap(p => p.length <= max ? [p] : p.match(new RegExp(`[\\s\\S]{1,${max}}(?=\\s|$)`, 'g')) ?? [p]);
+  const chunks: string[] = [];
+  for (const piece of pieces.map(p => p.trim()).filter(Boolean)) {
+    if (chunks.length && chunks.at(-1)!.length + piece.length < max) chunks[chunks.length - 1] += `\n${piece}`;
+    else chunks.push(piece);
+  }
+  return chunks;
+}
+
+/**
+ * A page's text as passages under their headings, for embedding: each content block is
+ * cut at its headings, and whatever follows a heading — other blocks included — belongs
+ * to it until the next one. Long sections split into several chunks under one heading.
+ */
+export function chunkByHeading(blocks: Block[], max = CHUNK_MAX_CHARS): TextChunk[] {
+  const sections: { heading: string | null; blocks: Block[] }[] = [{ heading: null, blocks: [] }];
+  for (const block of blocks) {
+    if (block.type !== 'content') { sections.at(-1)!.blocks.push(block); continue; }
+    let start = 0;
+    for (const match of block.text.matchAll(HEADING)) {
+      sections.at(-1)!.blocks.push({ ...block, text: block.text.slice(start, match.index) });
+      sections.push({ heading: stripHtml(match[2]!) || null, blocks: [] });
+      start = match.index + match[0].length;
+    }
+    sections.at(-1)!.blocks.push({ ...block, text: block.text.slice(start) });
+  }
+  return sections.flatMap(s => splitText(extractText(s.blocks), max).map(text => ({ heading: s.heading, text })));
+}
+
 export function extractText(blocks: Block[]): string {
   return blocks.map(b => {
     if (b.type === 'content') return stripHtml(b.text);
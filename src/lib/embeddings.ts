@@ -0,0 +1,108 @@
+// src/lib/embeddings.ts — Text embeddings for semantic search, behind one small provider interface.
+// EMBEDDING_PROVIDER picks one: `hashed` (default) is a lexical fallback that runs in-process with
+// no model files or network — it matches word forms, not meaning; `http` calls an OpenAI-compatible
+// /embeddings endpoint, e.g. a model served locally by Ollama, and is what makes the search semantic.
+
+export interface EmbeddingProvider {
+  /** Stored beside every page's vectors: vectors from different providers are never compared. */
+  id: string;
+  /** Cosine similarity below which a passage is unrelated to the query — each provider's scale differs. */
+  minSimilarity: number;
+  /** The vectors encode word forms rather than meaning: "semantic" results from it are lexical matches. */
+  lexical?: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ========== HASHED N-GRAMS ==========
+
+const HASHED_DIMENSIONS = 512;
+
+// Question words and glue: "how do I stake" should embed as "stake".
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'there', 'these', 'this', 'to', 'was', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+}
+
+function stem(word: string): string {
+  const stemmed = word.replace(/(?:ations?|ings?|ers?|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/**
+ * Feature hashing over stemmed words, word pairs and character trigrams, so inflections
+ * and shared word parts land near each other. It knows no synonyms — that takes a trained
+ * model via the `http` provider — but it needs nothing installed and is deterministic.
+ */
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(HASHED_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % HASHED_DIMENSIONS]! += hash & 0x80000000 ? -weight : weight;
+  };
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1 && !STOPWORDS.has(w)).map(stem);
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25);
+  });
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(x => x / norm);
+}
+
+const hashedProvider: EmbeddingProvider = {
+  id: `hashed-${HASHED_DIMENSIONS}`,
+  minSimilarity: 0.2,
+  lexical: true,
+  embed: async texts => texts.map(hashedEmbedding),
+};
+
+// ========== HTTP ==========
+
+function httpProvider(): EmbeddingProvider {
+  const url = process.env.EMBEDDING_URL || 'http://localhost:11434/v1/embeddings';
+  const model = process.env.EMBEDDING_MODEL || 'nomic-embed-text';
+  const apiKey = process.env.EMBEDDING_API_KEY;
+  return {
+    id: `http:${model}`,
+    minSimilarity: Number(process.env.EMBEDDING_MIN_SIMILARITY) || 0.35,
+    async embed(texts) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(30_000),
+      });
+      if (!res.ok) throw new Error(`Embedding request failed: ${res.status} ${await res.text().catch(() => '')}`.trim());
+      const { data } = await res.json() as { data: { index: number; embedding: number[] }[] };
+      return data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+    },
+  };
+}
+
+// ========== SELECTION ==========
+
+const PROVIDERS: Record<string, () => EmbeddingProvider> = {
+  hashed: () => hashedProvider,
+  http: httpProvider,
+};
+
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+  const name = process.env.EMBEDDING_PROVIDER || 'hashed';
+  const create = PROVIDERS[name];
+  if (!create) throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(' or ')})`);
+  return (provider = create());
+}
+
+/** pgvector's text form, for binding a vector as a `::vector` parameter. */
+export const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`;
@@ -6,10 +6,12 @@
 // signals — `isStale()` drives the outdated banner, the content standard asks
 // for hyperlinked assertions, tag paths declare required metadata — but each
 // only ever surfaced on the affected page, where nobody looking for work sees
-// it. These are those predicates, gathered into lists.
+// it. These are those predicates, gathered into lists — plus the one queue
+// that isn't about an existing page: what readers searched for and didn't find.
 
 import { prisma } from '@/lib/prisma/client';
-import { cached } from '@/lib/wiki';
+import { cached, searchPageIds, LIVE } from '@/lib/wiki';
+import { searchHref } from '@/lib/taxonomy';
 import { isStale, daysSince } from '@/lib/freshness';
 import { getMetadataKeys } from '@/lib/tags';
 
@@ -27,9 +29,37 @@ type Row = {
 
 const href = (p: Row) => `/${p.tagPath}/${p.slug}`;
 
+const REQUESTED_WINDOW_DAYS = 90;
+/** One reader's typo isn't a request; the same search failing again is. */
+const REQUESTED_MIN_SEARCHES = 2;
+const REQUESTED_LIMIT = 25;
+
+/**
+ * The zero-result searches (lib/search-log.ts) readers ran most often lately, checked
+ * again now: a query the wiki has since learned to answer leaves the list.
+ */
+async function requestedArticles(): Promise<MaintenanceItem[]> {
+  const since = new Date(Date.now() - REQUESTED_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const misses = await prisma.searchLog.groupBy({
+    by: ['query'],
+    where: { resultCount: 0, createdAt: { gte: since } },
+    _count: { query: true },
+    having: { query: { _count: { gte: REQUESTED_MIN_SEARCHES } } },
+    orderBy: { _count: { query: 'desc' } },
+    take: REQUESTED_LIMIT * 2,
+  });
+  const items: MaintenanceItem[] = [];
+  for (const miss of misses) {
+    if (items.length === REQUESTED_LIMIT) break;
+    if ((await searchPageIds(miss.query, { take: 1 })).total > 0) continue;
+    items.push({ title: miss.query, href: searchHref(miss.query), tagPath: '', detail: `${miss._count.query} searches` });
+  }
+  return items;
+}
+
 export const getMaintenanceQueues = cached('getMaintenanceQueues', async (): Promise<MaintenanceQueue[]> => {
   const pages = await prisma.page.findMany({
-    where: { NOT: { tagPath: '' } },
+    where: { NOT: { tagPath: '' }, ...LIVE },
     select: { id: true, title: true, slug: true, tagPath: true, content: true, metadata: true, updatedAt: true, lastVerifiedAt: true },
     orderBy: { title: 'asc' },
   }) as Row[];
@@ -87,5 +117,11 @@ export const getMaintenanceQueues = cached('getMaintenanceQueues', async (): Pro
       description: 'A field the page\u2019s tag path declares as required is empty, so its infobox and category facets are incomplete.',
       items: incomplete.map(({ page, missing }) => ({ title: page.title, href: href(page), tagPath: page.tagPath, detail: `missing ${missing.join(', ')}` })),
     },
+    {
+      key: 'requested',
+      title: 'Requested articles',
+      description: `What readers searched for in the last ${REQUESTED_WINDOW_DAYS} days and found nothing. Write the article, or work the term into the page that should have answered it.`,
+      items: await requestedArticles(),
+    },
   ].filter(q => q.items.length > 0);
 });
@@ -34,12 +34,13 @@ export type McpTool = {
 export const TOOLS: McpTool[] = [
   {
     name: 'search_wiki',
-    description: 'Search Radix Wiki pages by keyword. Matches against titles and content. Returns titles, URLs, snippets, and update dates.',
+    description: 'Search Radix Wiki pages by keyword, phrase and field filters (tag:, author:, updated:, metadata keys), or by meaning with mode "semantic". Matches against titles, metadata and content. Returns titles, URLs, snippets, and update dates.',
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', description: 'Search term (matched against page titles and body text)' },
+        query: { type: 'string', description: 'Search terms, matched against page titles, metadata and body text with stemming ("staking" finds "stake"). Syntax: "double quotes" for an exact phrase; a trailing * for a prefix (scryp*); -word to exclude; OR between alternatives (words are otherwise all required). Field filters, each negatable with a leading -: tag:<tag path> (includes sub-paths, e.g. tag:ecosystem), author:<display name or account address>, updated:>2026-01-01 (also >=, <, <=, or a bare YYYY, YYYY-MM or YYYY-MM-DD for that period), and <metadata key>:<value> for infobox fields such as status, category or quality, e.g. status:"Active". Filters alone are a valid query, listing newest first.' },
         tagPath: { type: 'string', description: 'Limit results to a tag path (e.g. "contents/tech/core-concepts")' },
+        mode: { type: 'string', enum: ['keyword', 'semantic'], description: 'keyword (default) matches the words typed. semantic ranks by meaning, for natural-language questions ("how do validators get paid?"): each page is scored by its closest section, blended with keyword relevance, and the result carries that section as `section` and `snippet`. Without an embedding model configured the wiki falls back to lexical matching (word forms, not synonyms), flagged as `matching` in the result. Filters and -exclusions apply in both modes.' },
         page: { type: 'number', description: 'Page number (default 1)' },
         pageSize: { type: 'number', description: 'Results per page (default 20, max 50)' },
       },
@@ -147,7 +148,7 @@ export const TOOLS: McpTool[] = [
   },
   {
     name: 'edit_page',
-    description: 'Edit an existing Radix Wiki page. Requires a ROLA bearer token — see https://radix.wiki/AGENTS.md. Fetch the page with get_page first and send the full revised block array; the version bump, block-level diff, and revision entry are computed server-side. Locked and author-only pages are rejected. Earns contribution points.',
+    description: 'Edit an existing Radix Wiki page. Requires a ROLA bearer token — see https://radix.wiki/AGENTS.md. Fetch the page with get_page first and send the full revised block array; the version bump, block-level diff, and revision entry are computed server-side. Pages that are protected against you (see `protection` in get_page) and author-only pages you did not write are rejected. Earns contribution points.',
     auth: 'rola',
     inputSchema: {
       type: 'object',
@@ -158,6 +159,8 @@ export const TOOLS: McpTool[] = [
         title: { type: 'string', description: 'New title' },
         revisionMessage: { type: 'string', description: 'What changed and why — shown in the page history. Always send one.' },
         metadata: { type: 'object', description: 'Replacement metadata object' },
+        baseVersion: { type: 'string', description: 'The page version your edit is based on (from get_page). Concurrent edits to other blocks are merged in; overlapping ones are rejected with the conflicting block ids.' },
+        minorEdit: { type: 'boolean', description: 'Mark as a minor edit (copy-edits, formatting, link fixes): the version bump is capped at minor however many blocks it touches.' },
       },
       required: ['tagPath', 'slug'],
     },
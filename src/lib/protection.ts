@@ -0,0 +1,106 @@
+// src/lib/protection.ts — Page protection levels: who may edit a page, set per page by an admin.
+// Pure so the editor and the page view can state a protection without a round trip;
+// the server resolves the editor's points and admin status, then asks the same question.
+
+import { canEditAuthorOnlyPage } from '@/lib/tags';
+
+export const PROTECTION_LEVELS = ['none', 'semi', 'author', 'locked'] as const;
+export type ProtectionLevel = (typeof PROTECTION_LEVELS)[number];
+
+/** Points a semi-protected page asks for when the admin doesn't name a threshold. */
+export const SEMI_PROTECTION_MIN_POINTS = 500;
+
+export const PROTECTION_LABELS: Record<ProtectionLevel, string> = {
+  none: 'Unprotected',
+  semi: 'Semi-protected',
+  author: 'Author-only',
+  locked: 'Locked',
+};
+
+// Pages whose content is generated elsewhere — locked in code for everyone, admins included.
+const PERMANENT_LOCKS = new Set(['ecosystem/radix-namespace', 'ecosystem/xrd-domains']);
+
+/** Prisma select for everything `activeProtection` reads. */
+export const PROTECTION_SELECT = {
+  tagPath: true, slug: true, protection: true, protectionMinPoints: true, protectionReason: true, protectionExpiresAt: true,
+} as const;
+
+type ProtectionInput = {
+  tagPath: string;
+  slug: string;
+  protection?: string | null;
+  protectionMinPoints?: number | null;
+  protectionReason?: string | null;
+  protectionExpiresAt?: Date | string | null;
+};
+
+export interface ActiveProtection {
+  level: Exclude<ProtectionLevel, 'none'>;
+  minPoints: number;
+  reason: string | null;
+  expiresAt: Date | null;
+  /** Locked in code rather than by an admin; nobody can lift it from the UI. */
+  permanent: boolean;
+}
+
+export interface EditorStanding {
+  userId: string;
+  points: number;
+  isAdmin: boolean;
+}
+
+export const isProtectionLevel = (value: unknown): value is ProtectionLevel =>
+  typeof value === 'string' && (PROTECTION_LEVELS as readonly string[]).includes(value);
+
+/** The protection in force on a page right now — null when it has none or it has expired. */
+export function activeProtection(page: ProtectionInput): ActiveProtection | null {
+  if (PERMANENT_LOCKS.has(`${page.tagPath}/${page.slug}`)) {
+    return { level: 'locked', minPoints: 0, reason: null, expiresAt: null, permanent: true };
+  }
+  if (!isProtectionLevel(page.protection) || page.protection === 'none') return null;
+  const expiresAt = page.protectionExpiresAt ? new Date(page.protectionExpiresAt) : null;
+  if (expiresAt && expiresAt.getTime() <= Date.now()) return null;
+  return {
+    level: page.protection,
+    minPoints: page.protectionMinPoints ?? SEMI_PROTECTION_MIN_POINTS,
+    reason: page.protectionReason ?? null,
+    expiresAt,
+    permanent: false,
+  };
+}
+
+/**
+ * Why this editor may not change the page, or null when they may. Admins get past
+ * every protection an admin can set; a permanent lock stops them too.
+ */
+export function protectionDenial(
+  page: ProtectionInput & { authorId: string; editorIds?: string[] },
+  editor: EditorStanding,
+): string | null {
+  const active = activeProtection(page);
+  if (!active) return null;
+  if (active.permanent) return 'This page is locked and cannot be edited';
+  if (editor.isAdmin) return null;
+  const reason = active.reason ? ` (${active.reason})` : '';
+  switch (active.level) {
+    case 'semi':
+      return editor.points >= active.minPoints ? null
+        : `This page is semi-protected${reason}: editing it takes ${active.minPoints.toLocaleString()} contributor points, you have ${editor.points.toLocaleString()}`;
+    case 'author':
+      return canEditAuthorOnlyPage(page, editor.userId) ? null
+        : `This page is protected${reason}: only its author and invited editors can edit it`;
+    case 'locked':
+      return `This page is locked${reason}: only admins can edit it`;
+  }
+}
+
+/** One line for banners and lists: level, and until when. */
+export function describeProtection(active: ActiveProtection): string {
+  const label = PROTECTION_LABELS[active.level];
+  const who = active.level === 'semi' ? ` — editing takes ${active.minPoints.toLocaleString()} contributor points`
+    : active.level === 'author' ? ' — only the author and invited editors can edit'
+    : active.permanent ? ' — its content is maintained outside the wiki'
+    : ' — only admins can edit';
+  const until = active.expiresAt ? ` until ${active.expiresAt.toISOString().slice(0, 10)}` : '';
+  return `${label}${until}${who}`;
+}
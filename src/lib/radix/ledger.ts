@@ -1,6 +1,6 @@
 // src/lib/radix/ledger.ts — On-chain wiki backup via account metadata
 
-import { paginatedGatewayFetch } from './gateway';
+import { paginatedGatewayFetch, postGateway } from './gateway';
 
 // ========== TYPES ==========
 
@@ -25,6 +25,8 @@ export interface RestoredPage {
 const PAGE_PREFIX = 'wiki_page:';
 const ANCHOR_KEY = 'wiki_anchor';
 const CHUNK_MAX = 3800; // safe limit under Radix's 4096-byte metadata cap
+/** A transaction intent hash: Bech32m `txid_<network>1…` over 32 bytes. */
+export const INTENT_HASH_PATTERN = /^txid_[a-z0-9_]+1[02-9ac-hj-np-z]{58}$/;
 
 // ========== MANIFEST BUILDER ==========
 
@@ -134,3 +136,11 @@ export async function readAllPagesFromLedger(accountAddress: string): Promise<Re
 
   return pages;
 }
+
+// ========== TRANSACTIONS ==========
+
+/** Whether the transaction is committed successfully on the ledger. False when the gateway can't say. */
+export async function isTransactionCommitted(intentHash: string): Promise<boolean> {
+  const data = await postGateway<{ status?: string }>('/transaction/status', { intent_hash: intentHash }, 'transaction-status');
+  return data?.status === 'CommittedSuccess';
+}
@@ -0,0 +1,105 @@
+// src/lib/redirects.ts — Page moves: repointing internal links from a page's old address to its new one
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma/client';
+import { computeRevisionDiff, formatVersion } from '@/lib/versioning';
+import { getVersioningPolicy, isAuthorOnlyPath, canEditAuthorOnlyPage } from '@/lib/tags';
+import { isTrustedEditor, editorStanding } from '@/lib/review';
+import { protectionDenial } from '@/lib/protection';
+import { deliverWebhooks } from '@/lib/webhooks';
+import { indexPage } from '@/lib/search-index';
+import type { AuthSession } from '@/types';
+import type { Block } from '@/types/blocks';
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Internal links are stored root-relative, but pasted ones keep the site origin.
+const ORIGIN = String.raw`(?:https?://(?:www\.)?radix\.wiki)?`;
+
+/**
+ * Repoint every link to `from` (a root-relative page path) at `to`, keeping any
+ * #anchor or ?query. Covers anchors inside rich text and the bare `href`/`url`
+ * fields of link-grid and reference items; `pageList` blocks hold page ids and
+ * need no rewriting.
+ */
+export function rewriteLinks(blocks: Block[], from: string, to: string): { content: Block[]; count: number } {
+  const target = `${ORIGIN}${escapeRegExp(from)}/?`;
+  const inHtml = new RegExp(`(href=")${target}(?=["#?])`, 'gi');
+  const whole = new RegExp(`^${target}(?=$|[#?])`, 'i');
+  let count = 0;
+
+  const walk = (value: unknown, key?: string): unknown => {
+    if (typeof value === 'string') {
+      if ((key === 'href' || key === 'url') && whole.test(value)) { count++; return value.replace(whole, to); }
+      return value.replace(inHtml, (_, attr: string) => { count++; return `${attr}${to}`; });
+    }
+    if (Array.isArray(value)) return value.map(v => walk(v));
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v, k)]));
+    return value;
+  };
+
+  return { content: walk(blocks) as Block[], count };
+}
+
+/**
+ * After a move, give every page that linked to the old address a revision with
+ * the link repointed, attributed to whoever moved it. Pages the mover could not
+ * edit directly — protected against them, someone else's author-only page, or
+ * below the review bar — are left for the redirect to cover.
+ */
+export async function rewriteInboundLinks(from: string, to: string, session: AuthSession): Promise<{ updated: number; skipped: number }> {
+  const candidates = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM pages WHERE deleted_at IS NULL AND content::text LIKE ${`%${from}%`}
+  `;
+  const trusted = new Map<string, boolean>();
+  const standing = await editorStanding(session);
+  let updated = 0;
+  let skipped = 0;
+
+  for (const { id } of candidates) {
+    const page = await prisma.page.findUnique({ where: { id } });
+    if (!page) continue;
+    const oldContent = (page.content as unknown as Block[]) || [];
+    const { content, count } = rewriteLinks(oldContent, from, to);
+    if (count === 0) continue;
+
+    if (!trusted.has(page.tagPath)) trusted.set(page.tagPath, await isTrustedEditor(session, page.tagPath));
+    if (protectionDenial(page, standing) || !trusted.get(page.tagPath)
+      || (isAuthorOnlyPath(page.tagPath) && !canEditAuthorOnlyPage(page, session.userId))) {
+      skipped++;
+      continue;
+    }
+
+    const diff = computeRevisionDiff(
+      page.version, oldContent, content, page.title, page.title, page.bannerImage, page.bannerImage,
+      { policy: getVersioningPolicy(page.tagPath), minorEdit: true },
+    );
+    const version = formatVersion(diff.version);
+    const message = `Update ${count === 1 ? 'link' : `${count} links`}: ${from} → ${to}`;
+
+    // Same version guard as an editor save: a page edited meanwhile is skipped, not overwritten.
+    const saved = await prisma.$transaction(async (tx) => {
+      const { count: matched } = await tx.page.updateMany({
+        where: { id: page.id, version: page.version },
+        data: { content: content as unknown as Prisma.InputJsonValue, version },
+      });
+      if (matched === 0) return false;
+      await indexPage(tx, page.id);
+      await tx.revision.create({
+        data: {
+          pageId: page.id, title: page.title, content: content as unknown as Prisma.InputJsonValue,
+          version, changeType: diff.changeType, changeRationale: diff.rationale,
+          changes: diff.changes as unknown as Prisma.InputJsonValue,
+          authorId: session.userId, message,
+        },
+      });
+      return true;
+    });
+    if (!saved) { skipped++; continue; }
+
+    updated++;
+    deliverWebhooks('page.updated', { page: { ...page, version }, revision: { changeType: diff.changeType, message, version, previousVersion: page.version, changes: diff.changes }, actor: { displayName: session.displayName ?? null, radixAddress: session.radixAddress } });
+  }
+
+  return { updated, skipped };
+}
@@ -0,0 +1,68 @@
+// src/lib/review.ts — Editor trust: edits held for review on tag paths that declare `TagNode.review`,
+// and the editor standing that page protection levels are checked against
+
+import { prisma } from '@/lib/prisma/client';
+import { isAdmin } from '@/lib/auth';
+import { getReviewPolicy } from '@/lib/tags';
+import { getEditorScores } from '@/lib/scoring';
+import { computeRevisionDiff } from '@/lib/versioning';
+import { AUTHOR_SELECT, LIVE } from '@/lib/wiki';
+import { activeProtection, protectionDenial, type EditorStanding } from '@/lib/protection';
+import type { AuthSession } from '@/types';
+import type { Block } from '@/types/blocks';
+
+/** What a held edit carries besides content and title, applied when it is accepted. */
+export interface PendingFields {
+  baseVersion: string;
+  metadata?: Record<string, string>;
+  bannerImage?: string | null;
+}
+
+/**
+ * Whether this editor's changes under `tagPath` go live immediately. The same bar
+ * decides who may accept or reject held edits there — trust is one threshold, not two.
+ */
+export async function isTrustedEditor(session: AuthSession, tagPath: string): Promise<boolean> {
+  const policy = getReviewPolicy(tagPath);
+  if (!policy) return true;
+  const editor = await editorStanding(session);
+  return editor.isAdmin || editor.points >= policy.minPoints;
+}
+
+/** The editor's contributor points and admin status — what review and protection bars are measured against. */
+export async function editorStanding(session: AuthSession): Promise<EditorStanding> {
+  const admin = isAdmin(session);
+  const score = admin ? undefined : (await getEditorScores()).find(s => s.id === session.userId);
+  return { userId: session.userId, points: score?.points ?? 0, isAdmin: admin };
+}
+
+/** Why the page's protection keeps this editor out, or null. Unprotected pages skip the score lookup. */
+export async function checkProtection(
+  session: AuthSession,
+  page: Parameters<typeof protectionDenial>[0],
+): Promise<string | null> {
+  if (!activeProtection(page)) return null;
+  return protectionDenial(page, await editorStanding(session));
+}
+
+/** Every held edit, oldest first, diffed against the page as it is now. */
+export async function getPendingRevisions() {
+  const revisions = await prisma.revision.findMany({
+    where: { status: 'pending', page: LIVE },
+    select: {
+      id: true, title: true, version: true, content: true, message: true, createdAt: true, pendingFields: true,
+      author: AUTHOR_SELECT,
+      page: { select: { id: true, title: true, slug: true, tagPath: true, version: true, content: true, bannerImage: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return revisions.map(({ content, page: { content: headContent, ...page }, pendingFields, ...rev }) => {
+    const fields = (pendingFields ?? { baseVersion: rev.version }) as unknown as PendingFields;
+    const diff = computeRevisionDiff(
+      page.version, (headContent as unknown as Block[]) || [], (content as unknown as Block[]) || [],
+      page.title, rev.title, page.bannerImage, fields.bannerImage ?? page.bannerImage,
+    );
+    return { ...rev, page, baseVersion: fields.baseVersion, metadataChanged: fields.metadata !== undefined, diff };
+  });
+}
@@ -63,7 +63,7 @@ export const getEditorScores = unstable_cache(
         u.radix_address,
         u.avatar_url,
         u.created_at,
-        (SELECT COUNT(*) FROM pages p WHERE p.author_id = u.id) AS page_count,
+        (SELECT COUNT(*) FROM pages p WHERE p.author_id = u.id AND p.deleted_at IS NULL) AS page_count,
         COALESCE(r.edit_slots, 0) AS edit_slots,
         COALESCE(r.unique_pages, 0) AS unique_pages,
         COALESCE(c.comment_slots, 0) AS comment_slots
@@ -72,11 +72,11 @@ export const getEditorScores = unstable_cache(
         SELECT
           COUNT(DISTINCT page_id || ':' || EXTRACT(EPOCH FROM date_trunc('hour', created_at))::BIGINT) AS edit_slots,
           COUNT(DISTINCT page_id) AS unique_pages
-        FROM revisions WHERE author_id = u.id
+        FROM revisions WHERE author_id = u.id AND status = 'published' AND page_id IN (SELECT id FROM pages WHERE deleted_at IS NULL)
       ) r ON true
       LEFT JOIN LATERAL (
         SELECT COUNT(DISTINCT page_id || ':' || EXTRACT(EPOCH FROM date_trunc('hour', created_at))::BIGINT) AS comment_slots
-        FROM comments WHERE author_id = u.id
+        FROM comments WHERE author_id = u.id AND page_id IN (SELECT id FROM pages WHERE deleted_at IS NULL)
       ) c ON true
     `;
 
@@ -0,0 +1,158 @@
+// src/lib/search-index.ts — Keeping search current without searches writing anything.
+// A page's `search_vector` is rebuilt in the transaction that writes the page; a background
+// worker picks up pages written some other way, indexes new revisions for history search,
+// rebuilds the "did you mean" vocabulary and embeds changed pages for semantic search.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma/client';
+import { HIDDEN_TAG_PATHS } from '@/lib/tags';
+import { chunkByHeading } from '@/lib/content';
+import { getEmbeddingProvider, toVectorLiteral, type EmbeddingProvider } from '@/lib/embeddings';
+import type { Block } from '@/types/blocks';
+
+// The search document: title (weight A), metadata values (B) and prose (C). Prose is
+// every `text` value at any block depth (`$.**.text`) rather than the raw JSON, so block
+// ids, type discriminators and markup can't score as words; tags and entities are
+// blanked first. Hidden tag paths are article space's back office — the maintenance log
+// quotes every edit ever made, so it would outrank the article on almost any query — and
+// index their title alone.
+const proseDocument = (content: Prisma.Sql) => Prisma.sql`
+  setweight(to_tsvector('english', regexp_replace(
+    coalesce((SELECT string_agg(t #>> '{}', ' ') FROM jsonb_path_query(${content}, '$.**.text') t), ''),
+    '<[^>]*>|&#?[a-z0-9]+;', ' ', 'gi')), 'C')
+`;
+
+const SEARCH_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector('english', title), 'A')
+  || setweight(to_tsvector('english', coalesce(
+       (SELECT string_agg(value, ' ') FROM jsonb_each_text(CASE WHEN jsonb_typeof(metadata) = 'object' THEN metadata END)), '')), 'B')
+  || CASE WHEN tag_path = ANY(${HIDDEN_TAG_PATHS}::text[]) THEN ''::tsvector ELSE ${proseDocument(Prisma.raw('content'))} END
+`;
+
+// A revision's document: its title and prose as the page stood then. Revisions keep no
+// metadata, so that weight is absent.
+const REVISION_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector('english', r.title), 'A')
+  || CASE WHEN p.tag_path = ANY(${HIDDEN_TAG_PATHS}::text[]) THEN ''::tsvector ELSE ${proseDocument(Prisma.raw('r.content'))} END
+`;
+
+/**
+ * Rebuild one page's `search_vector` from the row as it now stands. Run it inside the
+ * transaction that writes the page, after the write, so the page is never searchable
+ * by words it no longer has. There is no trigger to do this — the schema is pushed, not migrated.
+ */
+export function indexPage(db: Pick<Prisma.TransactionClient, '$executeRaw'>, id: string): Prisma.PrismaPromise<number> {
+  return db.$executeRaw`UPDATE pages SET search_vector = ${SEARCH_DOCUMENT}, search_indexed_at = updated_at WHERE id = ${id}`;
+}
+
+/**
+ * Index pages written without `indexPage` — seed scripts, Prisma Studio, or a write
+ * that only moved `updated_at`. Usually nothing.
+ */
+function reindexStalePages(): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE pages SET search_vector = ${SEARCH_DOCUMENT}, search_indexed_at = updated_at
+     WHERE search_indexed_at IS DISTINCT FROM updated_at
+  `;
+}
+
+/**
+ * Index published revisions not yet indexed, for history search. A published revision's
+ * content never changes — restores and undos publish new ones — so, unlike pages, nothing
+ * goes stale; pending edits wait, since accepting one rewrites it.
+ */
+function indexNewRevisions(): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE revisions r SET search_vector = ${REVISION_DOCUMENT}
+      FROM pages p
+     WHERE p.id = r.page_id AND r.status = 'published' AND r.search_vector IS NULL
+  `;
+}
+
+/**
+ * Replace the vocabulary with every alphabetic lexeme the live pages index. These are
+ * stems ("validat", not "validators") — fine for correcting a misspelling, which is
+ * rarely a real word's inflection. Upserted, so two servers rebuilding at once can't collide.
+ */
+async function rebuildSearchVocabulary(): Promise<void> {
+  await prisma.$transaction([
+    prisma.searchTerm.deleteMany(),
+    prisma.$executeRaw`
+      INSERT INTO search_terms (word, ndoc)
+      SELECT word, ndoc FROM ts_stat('SELECT search_vector FROM pages WHERE deleted_at IS NULL AND search_vector IS NOT NULL')
+       WHERE word ~ '^[[:alpha:]]{3,40}$'
+      ON CONFLICT (word) DO UPDATE SET ndoc = excluded.ndoc
+    `,
+  ]);
+}
+
+/** Pages (re)embedded per worker pass: a model served over HTTP takes real time per page. */
+const EMBED_BATCH = 20;
+
+/**
+ * Chunk and embed the pages written, or embedded by another provider, since they were
+ * last embedded — a batch at a time, newest first, so a provider change works through
+ * the wiki over several passes while pages not yet embedded still match by keyword.
+ * Back-office paths get no chunks, as they get no prose in the search document.
+ */
+async function embedStalePages(provider: EmbeddingProvider): Promise<void> {
+  const stale = await prisma.$queryRaw<{ id: string; title: string; tag_path: string; content: unknown; updated_at: Date }[]>`
+    SELECT id, title, tag_path, content, updated_at
+      FROM pages
+     WHERE deleted_at IS NULL AND (embedded_at IS DISTINCT FROM updated_at OR embedded_with IS DISTINCT FROM ${provider.id})
+     ORDER BY updated_at DESC
+     LIMIT ${EMBED_BATCH}
+  `;
+  for (const page of stale) {
+    const hidden = (HIDDEN_TAG_PATHS as readonly string[]).includes(page.tag_path);
+    const chunks = hidden || !Array.isArray(page.content) ? [] : chunkByHeading(page.content as Block[]);
+    const vectors = chunks.length ? await provider.embed(chunks.map(c => [page.title, c.heading, c.text].filter(Boolean).join('\n'))) : [];
+    await prisma.$transaction([
+      prisma.pageChunk.deleteMany({ where: { pageId: page.id } }),
+      ...(chunks.length ? [prisma.$executeRaw`
+        INSERT INTO page_chunks (page_id, position, heading, text, embedding)
+        SELECT ${page.id}, c.position - 1, c.heading, c.text, c.embedding::vector
+          FROM unnest(${chunks.map(c => c.heading)}::text[], ${chunks.map(c => c.text)}::text[], ${vectors.map(toVectorLiteral)}::text[])
+               WITH ORDINALITY AS c(heading, text, embedding, position)
+        ON CONFLICT (page_id, position) DO UPDATE SET heading = excluded.heading, text = excluded.text, embedding = excluded.embedding
+      `] : []),
+      // Raw, so @updatedAt doesn't move and mark the page stale again.
+      prisma.$executeRaw`UPDATE pages SET embedded_at = ${page.updated_at}, embedded_with = ${provider.id} WHERE id = ${page.id}`,
+    ]);
+  }
+}
+
+const WORKER_INTERVAL_MS = 30_000;
+
+const globalForWorker = globalThis as unknown as { searchIndexWorker: ReturnType<typeof setInterval> | undefined };
+
+/**
+ * Keep the index, vocabulary and embeddings current for as long as the server runs. Started
+ * once per process from instrumentation.ts. The vocabulary is rebuilt only when a page was
+ * written since the last pass — every write moves the latest `updated_at` — and on the first
+ * pass. Embedding goes last: a slow or unreachable provider holds up nothing else.
+ */
+export function startSearchIndexWorker(): void {
+  if (globalForWorker.searchIndexWorker) return;
+  let running = false;
+  let builtFrom: number | undefined;
+  globalForWorker.searchIndexWorker = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await Promise.all([reindexStalePages(), indexNewRevisions()]);
+      const { _max } = await prisma.page.aggregate({ _max: { updatedAt: true } });
+      const latest = _max.updatedAt?.getTime() ?? 0;
+      if (latest !== builtFrom) {
+        await rebuildSearchVocabulary();
+        builtFrom = latest;
+      }
+      await embedStalePages(getEmbeddingProvider());
+    } catch (err) {
+      console.error('Search index worker error:', err);
+    } finally {
+      running = false;
+    }
+  }, WORKER_INTERVAL_MS);
+  globalForWorker.searchIndexWorker.unref();
+}
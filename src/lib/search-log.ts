@@ -0,0 +1,43 @@
+// src/lib/search-log.ts — Anonymous search analytics: what readers searched for, how much it
+// found and which result they opened. The maintenance queue reads it back as requested articles.
+
+import { prisma } from '@/lib/prisma/client';
+import { searchPageIds } from '@/lib/wiki';
+
+const MAX_QUERY_LENGTH = 200;
+/** Results on the first page of /search: what the reader was shown, near misses included. */
+const COUNTED_RESULTS = 25;
+
+// Tokens that can name a person: an account or persona address, an email.
+const IDENTIFYING = /\b(?:account|identity)_[a-z0-9_]+|[^\s@]+@[^\s@]+\.[^\s@]+/gi;
+
+/**
+ * The query as stored: identifying tokens masked, case and spacing folded so the same
+ * search groups however it was typed. Null when too little is left to be worth keeping.
+ */
+export function anonymizeQuery(query: string): string | null {
+  const stored = query.normalize('NFKC').replace(IDENTIFYING, '…').toLowerCase().replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+  return stored.replace(/…/g, '').trim().length >= 2 ? stored : null;
+}
+
+/**
+ * Log a search and return its id, for a click to be recorded against. The result count
+ * is the server's own, for the query without facet chips — a client can't report a topic
+ * the wiki covers as missing, and narrowing to nothing isn't a missing article.
+ */
+export async function logSearch(query: string): Promise<string | null> {
+  const stored = anonymizeQuery(query);
+  if (!stored) return null;
+  const { total } = await searchPageIds(query, { take: COUNTED_RESULTS });
+  const { id } = await prisma.searchLog.create({ data: { query: stored, resultCount: total }, select: { id: true } });
+  return id;
+}
+
+/** The result the reader opened from a logged search. Only the first click counts. */
+export async function recordSearchClick(id: string, pageId: string, rank: number): Promise<boolean> {
+  const { count } = await prisma.searchLog.updateMany({
+    where: { id, clickedAt: null },
+    data: { clickedPageId: pageId, clickedRank: rank, clickedAt: new Date() },
+  });
+  return count > 0;
+}
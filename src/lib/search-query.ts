@@ -0,0 +1,119 @@
+// src/lib/search-query.ts — Search syntax: words, "phrases", prefix*, -exclusions, OR, and
+// field filters (tag:, author:, updated:, and any declared metadata key). Parsed here so the
+// client can highlight what was searched; `searchPageIds` in lib/wiki.ts compiles it to SQL.
+
+import { METADATA_KEYS_BY_NAME, type MetadataKeyDefinition } from '@/lib/tags';
+
+export type DateOp = '>' | '>=' | '<' | '<=' | '=';
+
+export type SearchFilter =
+  | { field: 'tag'; value: string }
+  | { field: 'author'; value: string }
+  /** `from`/`to` bound the day, month or year the date names: `updated:2026-01` is all of January. */
+  | { field: 'updated'; op: DateOp; from: Date; to: Date }
+  | { field: 'metadata'; key: MetadataKeyDefinition; value: string };
+
+export type SearchTerm = { negated: boolean } & (
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'filter'; filter: SearchFilter }
+);
+
+/**
+ * A query as clauses that must all hold, each a list of alternatives joined by `OR`:
+ * `staking OR delegation -validator` is `[[staking, delegation], [-validator]]`.
+ */
+export type ParsedSearch = SearchTerm[][];
+
+// An optional `-`, an optional `field:`, then a quoted value or a bare word.
+const TOKEN = /(-?)(?:([a-z][\w-]*):(?=\S))?(?:"([^"]*)"?|(\S+))/gi;
+const DATE = /^(>=|<=|>|<|=)?(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+function parseDate(value: string): Extract<SearchFilter, { field: 'updated' }> | null {
+  const m = DATE.exec(value);
+  if (!m) return null;
+  const [, op = '=', y, mo, d] = m;
+  const year = Number(y), month = mo ? Number(mo) - 1 : 0, day = d ? Number(d) : 1;
+  const from = new Date(Date.UTC(year, month, day));
+  // Reject dates the calendar rolls over (2026-02-30), not just malformed ones.
+  if (from.getUTCMonth() !== month || from.getUTCDate() !== day) return null;
+  const to = d ? new Date(Date.UTC(year, month, day + 1)) : mo ? new Date(Date.UTC(year, month + 1, 1)) : new Date(Date.UTC(year + 1, 0, 1));
+  return { field: 'updated', op: op as DateOp, from, to };
+}
+
+function toFilter(field: string, value: string): SearchFilter | null {
+  if (!value.trim()) return null;
+  switch (field) {
+    case 'tag': return { field: 'tag', value: value.toLowerCase().replace(/^\/+|\/+$/g, '') };
+    case 'author': return { field: 'author', value };
+    case 'updated': return parseDate(value);
+  }
+  const key = METADATA_KEYS_BY_NAME.get(field);
+  return key ? { field: 'metadata', key, value } : null;
+}
+
+export function parseSearchQuery(query: string): ParsedSearch {
+  const clauses: ParsedSearch = [];
+  let orPending = false;
+  for (const [raw, minus, field, quoted, bare] of query.matchAll(TOKEN)) {
+    if (!minus && !field && bare === 'OR') { orPending = clauses.length > 0; continue; }
+    const negated = minus === '-';
+    const value = quoted ?? bare ?? '';
+    const filter = field ? toFilter(field.toLowerCase(), value) : null;
+    // A colon that isn't a known field (a pasted URL, "Babylon:") is just text.
+    const term: SearchTerm = filter ? { negated, kind: 'filter', filter }
+      : field ? { negated, kind: 'text', value: raw.slice(minus!.length), phrase: false }
+      : { negated, kind: 'text', value, phrase: quoted !== undefined };
+    if (orPending) clauses.at(-1)!.push(term);
+    else clauses.push([term]);
+    orPending = false;
+  }
+  return clauses;
+}
+
+/** Each group lists lower-cased names for one thing, as the synonym table stores them. */
+export type SynonymGroups = string[][];
+
+/** The longest name, in words, looked for across consecutive unquoted words. */
+const MAX_SYNONYM_WORDS = 4;
+
+/** Lower-cased with single spaces, as synonym terms are stored and looked up. */
+export const normalizeSynonym = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Widen a query with synonyms: a name in a group — a quoted phrase, one word, or a run
+ * of plain words like `transaction manifest` — becomes an `OR` of every name in the
+ * group, each matching as a phrase. The longest run wins. Exclusions, filters and
+ * prefixes stay as typed.
+ */
+export function expandSynonyms(clauses: ParsedSearch, groups: SynonymGroups): ParsedSearch {
+  if (!groups.length) return clauses;
+  const byName = new Map(groups.flatMap(group => group.map(name => [name, group] as const)));
+  const alternatives = (group: string[]): SearchTerm[] => group.map(name => ({ negated: false, kind: 'text', value: name, phrase: name.includes(' ') }));
+  const plainWord = (clause: SearchTerm[]) => {
+    const [term] = clause;
+    return clause.length === 1 && term!.kind === 'text' && !term!.negated && !term!.phrase ? normalizeSynonym(term!.value) : null;
+  };
+
+  const expanded: ParsedSearch = [];
+  for (let i = 0; i < clauses.length; i++) {
+    let run = 0;
+    for (let n = Math.min(MAX_SYNONYM_WORDS, clauses.length - i); n > 1 && !run; n--) {
+      const words = clauses.slice(i, i + n).map(plainWord);
+      const group = words.every(Boolean) ? byName.get(words.join(' ')) : undefined;
+      if (group) { expanded.push(alternatives(group)); run = n; }
+    }
+    if (run) { i += run - 1; continue; }
+    expanded.push(clauses[i]!.flatMap(term => {
+      const group = term.kind === 'text' && !term.negated ? byName.get(normalizeSynonym(term.value)) : undefined;
+      return group ? alternatives(group) : [term];
+    }));
+  }
+  return expanded;
+}
+
+/** The words a result matched on, for highlighting — filters and exclusions stripped. */
+export function searchHighlightText(query: string): string {
+  return parseSearchQuery(query).flat()
+    .flatMap(t => (t.kind === 'text' && !t.negated ? [t.value.replace(/\*$/, '')] : []))
+    .join(' ');
+}
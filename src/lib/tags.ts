@@ -1,5 +1,7 @@
 // src/lib/tags.ts - Optimized tag resolution with memoization
 
+import type { VersioningPolicy } from '@/lib/versioning';
+
 export interface MetadataKeyDefinition {
   key: string;
   label: string;
@@ -25,6 +27,14 @@ export interface TagNode {
   sort?: SortOrder;
   xrd?: { create?: number; edit?: number; comment?: number };
   metadataKeys?: MetadataKeyDefinition[];
+  /** Version-bump thresholds for edits here; inherited field by field like `xrd`. */
+  versioning?: Partial<VersioningPolicy>;
+  /**
+   * Pending changes: edits by contributors under `minPoints` (leaderboard score)
+   * are held as unpublished revisions until a trusted editor accepts them.
+   * The nearest declaration down the trail wins.
+   */
+  review?: { minPoints: number };
 }
 
 // Shared by developers/tools and developers/ai-agents: both catalogue third-party
@@ -159,11 +169,11 @@ export const TAG_HIERARCHY: TagNode[] = [
 // Article-assessment grade — a global key merged onto every page (Wikipedia-style quality scale).
 export const GLOBAL_METADATA_KEYS: MetadataKeyDefinition[] = [
   { key: 'quality', label: 'Quality:', type: 'select', options: ['📄 Stub', '🌱 Start', '🥉 C-class', '🥈 B-class', '🥇 Good', '⭐ Featured'] },
+  // Comma-separated other names ("XRD, Radix token"): searched with the title, and answered by /go/<alias>.
+  { key: 'aliases', label: 'Also known as:', type: 'text' },
 ];
 
 const AUTHOR_ONLY_PATHS = new Set(['blog']);
-const LOCKED_PAGES = new Set(['ecosystem/radix-namespace','ecosystem/xrd-domains']);
-export const isLockedPage = (tagPath: string, slug: string): boolean => LOCKED_PAGES.has(`${tagPath}/${slug}`);
 
 interface TagPathContext {
   node: TagNode | null;
@@ -174,6 +184,8 @@ interface TagPathContext {
   mainArticle?: string;
   xrdRequirements: NonNullable<TagNode['xrd']>;
   metadataKeys: MetadataKeyDefinition[];
+  versioning: Partial<VersioningPolicy>;
+  review?: NonNullable<TagNode['review']>;
 }
 
 // Memoization cache
@@ -186,30 +198,34 @@ function resolveTagPath(pathSegments: string[], hierarchy: TagNode[] = TAG_HIERA
 
   const requirements: NonNullable<TagNode['xrd']> = {};
   const metadataKeys: MetadataKeyDefinition[] = [];
+  const versioning: Partial<VersioningPolicy> = {};
   let current: TagNode[] = hierarchy;
   let node: TagNode | null = null;
   let sort: SortOrder = 'title';
   let mainArticle: string | undefined;
+  let review: TagNode['review'];
 
   for (const segment of pathSegments) {
     node = current.find(n => n.slug === segment) ?? null;
     if (!node) {
-      const result: TagPathContext = { node: null, isValid: false, isAuthorOnly: false, sort: 'title', xrdRequirements: {}, metadataKeys: [] };
+      const result: TagPathContext = { node: null, isValid: false, isAuthorOnly: false, sort: 'title', xrdRequirements: {}, metadataKeys: [], versioning: {} };
       resolveCache.set(key, result);
       return result;
     }
     if (node.xrd) Object.assign(requirements, node.xrd);
     if (node.metadataKeys) metadataKeys.push(...node.metadataKeys);
+    if (node.versioning) Object.assign(versioning, node.versioning);
     if (node.sort) sort = node.sort;
     // Nearest declaration down the trail wins, so a topic declared once at the
     // top covers every page beneath it without restating it per node.
     if (node.mainArticle) mainArticle = node.mainArticle;
+    if (node.review) review = node.review;
     current = node.children || [];
   }
 
   const isAuthorOnly = AUTHOR_ONLY_PATHS.has(key) || [...AUTHOR_ONLY_PATHS].some(p => key.startsWith(p + '/'));
   metadataKeys.push(...GLOBAL_METADATA_KEYS);
-  const result: TagPathContext = { node, isValid: pathSegments.length > 0, isAuthorOnly, sort, mainArticle, xrdRequirements: requirements, metadataKeys };
+  const result: TagPathContext = { node, isValid: pathSegments.length > 0, isAuthorOnly, sort, mainArticle, xrdRequirements: requirements, metadataKeys, versioning, review };
   resolveCache.set(key, result);
   return result;
 }
@@ -235,6 +251,8 @@ export const getMetadataKeys = (pathSegments: string[]): MetadataKeyDefinition[]
  * main article, an article names the nearest topic above it.
  */
 export const getMainArticle = (tagPath: string): string | undefined => resolveTagPath(tagPath.split('/')).mainArticle;
+export const getVersioningPolicy = (tagPath: string): Partial<VersioningPolicy> => resolveTagPath(tagPath.split('/')).versioning;
+export const getReviewPolicy = (tagPath: string): TagNode['review'] => resolveTagPath(tagPath.split('/')).review;
 export const getSortOrder = (pathSegments: string[]): SortOrder => resolveTagPath(pathSegments).sort;
 export const getVisibleTags = (hierarchy: TagNode[] = TAG_HIERARCHY): TagNode[] => hierarchy.filter(n => !n.hidden);
 
@@ -246,4 +264,13 @@ function collectHiddenPaths(nodes: TagNode[], parent = ''): string[] {
 }
 
 /** Tag paths declared hidden — wiki-internal surfaces (operations logs), not article space. */
-export const HIDDEN_TAG_PATHS: string[] = collectHiddenPaths(TAG_HIERARCHY);
\ No newline at end of file
+export const HIDDEN_TAG_PATHS: string[] = collectHiddenPaths(TAG_HIERARCHY);
+
+function collectMetadataKeys(nodes: TagNode[]): MetadataKeyDefinition[] {
+  return nodes.flatMap(node => [...(node.metadataKeys ?? []), ...collectMetadataKeys(node.children ?? [])]);
+}
+
+/** Every metadata key declared anywhere in the tree, by lower-cased key; the first declaration wins. */
+export const METADATA_KEYS_BY_NAME: ReadonlyMap<string, MetadataKeyDefinition> = new Map(
+  [...GLOBAL_METADATA_KEYS, ...collectMetadataKeys(TAG_HIERARCHY)].reverse().map(k => [k.key.toLowerCase(), k]),
+);
\ No newline at end of file
@@ -8,7 +8,7 @@
 // alphabetical index a category needs once it outgrows a screen of cards, and
 // the shared-facet ranking that makes "See also" mean something.
 
-import { getMetadataKeys, type MetadataKeyDefinition } from '@/lib/tags';
+import { getMetadataKeys, GLOBAL_METADATA_KEYS, METADATA_KEYS_BY_NAME, type MetadataKeyDefinition } from '@/lib/tags';
 import type { WikiPage } from '@/types';
 
 /** Below this a category fits on a page or two; above it, readers need an index. */
@@ -130,3 +130,65 @@ export function rankRelated(page: WikiPage, siblings: WikiPage[], tagPath: strin
   const value = narrowest && ranked[0]?.score ? metaValue(page, narrowest.key) : '';
   return { pages: ranked.map(r => r.p), sharedFacet: narrowest && value ? { key: narrowest.key, value } : null };
 }
+
+// ========== SEARCH FACETS ==========
+// Search spans the whole tree, so its axes are the top-level section plus every
+// select key declared anywhere — the quality grade last, since every page has one.
+
+/** The facet key for a result's top-level tag path. */
+export const SECTION_FACET = 'section';
+
+export function searchFacetKeys(): MetadataKeyDefinition[] {
+  const isGlobal = (key: MetadataKeyDefinition) => GLOBAL_METADATA_KEYS.includes(key);
+  return [...METADATA_KEYS_BY_NAME.values()].filter(k => k.type === 'select').sort((a, b) => Number(isGlobal(a)) - Number(isGlobal(b)));
+}
+
+/** Query params narrowed to the section and the select keys search can facet on. */
+export function searchFacetFilters(params: Record<string, string | string[] | undefined>): FacetFilters {
+  const filters: FacetFilters = {};
+  for (const key of [SECTION_FACET, ...searchFacetKeys().map(k => k.key)]) {
+    const value = params[key];
+    if (typeof value === 'string' && value) filters[key] = value;
+  }
+  return filters;
+}
+
+/** What facet counting needs of a search hit. */
+export interface FacetRow { tagPath: string; metadata: unknown }
+
+const rowValue = (row: FacetRow, key: string): string => key === SECTION_FACET
+  ? row.tagPath.split('/')[0]!
+  : String((row.metadata as Record<string, unknown> | null)?.[key] ?? '').trim();
+
+/**
+ * Counts over every hit of the query, section first. Like `buildFacets`, each
+ * facet is counted over the hits narrowed by every *other* active filter, and a
+ * facet offering no choice stays hidden unless it is the active one.
+ */
+export function buildSearchFacets(rows: FacetRow[], filters: FacetFilters): Facet[] {
+  const axes = [{ key: SECTION_FACET, label: 'Section' }, ...searchFacetKeys().map(k => ({ key: k.key, label: k.label.replace(/:$/, '') }))];
+  return axes.flatMap(({ key, label }) => {
+    const others = Object.entries(filters).filter(([k]) => k !== key);
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      if (!others.every(([k, v]) => rowValue(row, k) === v)) continue;
+      const value = rowValue(row, key);
+      if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    if (counts.size < 2 && !(key in filters)) return [];
+    const values = [...counts].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return [{ key, label, values }];
+  });
+}
+
+/** What a search reads: pages as they stand, or (signed in) every revision of them. */
+export type SearchScope = 'pages' | 'history';
+
+/** The search URL contract, as `categoryHref` is for categories. */
+export function searchHref(query: string, filters: FacetFilters = {}, scope: SearchScope = 'pages'): string {
+  const params = new URLSearchParams(query ? { q: query } : {});
+  for (const [key, value] of Object.entries(filters)) params.set(key, value);
+  if (scope !== 'pages') params.set('scope', scope);
+  const qs = params.toString();
+  return `/search${qs ? `?${qs}` : ''}`;
+}
@@ -1,7 +1,8 @@
 // src/lib/telegram.ts — Telegram Bot API + delivery
 
 import { prisma } from '@/lib/prisma/client';
-import type { WebhookEvent } from '@/lib/webhooks';
+import type { WebhookEvent, WebhookPayload } from '@/lib/webhooks';
+import { matchesFilters, type WebhookFilters } from '@/lib/webhook-filters';
 
 const BOT_TOKEN = process.env.TELEGRAM_SUB_BOT_TOKEN;
 
@@ -25,46 +26,59 @@ export function sendMessage(chatId: string, text: string): Promise<boolean> {
   return telegramApi('sendMessage', { chat_id: chatId, text, parse_mode: 'HTML', disable_web_page_preview: false });
 }
 
-function formatMessage(
-  event: WebhookEvent,
-  page: { slug: string; title: string; tagPath: string; version: string },
-  revision?: { changeType: string; message?: string | null; version: string } | null,
-  actor?: { displayName?: string | null; address: string } | null,
-  comment?: { id: string; content: string } | null,
-): string {
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://radix.wiki';
-  const pageUrl = page.tagPath ? `${appUrl}/${page.tagPath}/${page.slug}` : appUrl;
+/** Events about a page — the only ones a chat can subscribe to, since subscriptions are by page or section. */
+type PageEvent = Exclude<WebhookEvent, 'airdrop.recorded'>;
+type PagePayload = WebhookPayload<PageEvent>;
+
+const ICONS: Record<PageEvent, string> = {
+  'page.created': '📄',
+  'page.updated': '📝',
+  'page.deleted': '🗑',
+  'page.restored': '♻️',
+  'page.moved': '➡️',
+  'page.verified': '✅',
+  'metadata.changed': '🏷',
+  'comment.created': '💬',
+  'comment.deleted': '🚫',
+  'ledger.backup.confirmed': '⛓',
+};
+const LABELS: Record<PageEvent, string> = {
+  'page.created': 'New Page',
+  'page.updated': 'Page Updated',
+  'page.deleted': 'Page Deleted',
+  'page.restored': 'Page Restored',
+  'page.moved': 'Page Moved',
+  'page.verified': 'Page Verified',
+  'metadata.changed': 'Metadata Changed',
+  'comment.created': 'New Comment',
+  'comment.deleted': 'Comment Deleted',
+  'ledger.backup.confirmed': 'Backed Up On Ledger',
+};
+
+function formatMessage(payload: PagePayload): string {
+  const { page, actor } = payload;
   const actorName = actor?.displayName || actor?.address?.slice(0, 16) || 'Someone';
 
-  const icons: Record<WebhookEvent, string> = {
-    'page.created': '📄',
-    'page.updated': '📝',
-    'page.deleted': '🗑',
-    'comment.created': '💬',
-  };
-  const labels: Record<WebhookEvent, string> = {
-    'page.created': 'New Page',
-    'page.updated': 'Page Updated',
-    'page.deleted': 'Page Deleted',
-    'comment.created': 'New Comment',
-  };
-
   const lines: string[] = [
-    `${icons[event]} <b>${labels[event]}: ${escapeHtml(page.title)}</b>`,
+    `${ICONS[payload.event]} <b>${LABELS[payload.event]}: ${escapeHtml(page.title)}</b>`,
     '',
   ];
 
   if (page.tagPath) lines.push(`Section: ${page.tagPath}`);
-  if (revision) lines.push(`Version: ${revision.version}`);
+  if ('revision' in payload) lines.push(`Version: ${payload.revision.version}`);
+  if (payload.event === 'page.moved') lines.push(`From: ${payload.from.tagPath}/${payload.from.slug}`);
+  if (payload.event === 'metadata.changed') lines.push(`Changed: ${escapeHtml(payload.changes.map(c => c.key).join(', '))}`);
+  if (payload.event === 'ledger.backup.confirmed') lines.push(`Transaction: ${escapeHtml(payload.txHash)}`);
   lines.push(`By: ${escapeHtml(actorName)}`);
 
-  if (comment) {
+  if (payload.event === 'comment.created') {
+    const { content } = payload.comment;
     lines.push('');
-    lines.push(`"${escapeHtml(comment.content.slice(0, 200))}${comment.content.length > 200 ? '…' : ''}"`);
+    lines.push(`"${escapeHtml(content.slice(0, 200))}${content.length > 200 ? '…' : ''}"`);
   }
 
   lines.push('');
-  lines.push(`🔗 ${pageUrl}`);
+  lines.push(`🔗 ${page.url}`);
 
   return lines.join('\n');
 }
@@ -88,39 +102,29 @@ function matchesSubscription(
   return page.tagPath === sub.tagPath || page.tagPath.startsWith(sub.tagPath + '/');
 }
 
-export function deliverTelegram(
-  event: WebhookEvent,
-  page: { slug: string; title: string; tagPath: string; version: string },
-  revision?: { changeType: string; message?: string | null; version: string } | null,
-  actor?: { displayName?: string | null; radixAddress: string } | null,
-  comment?: { id: string; content: string; parentId?: string | null } | null,
-): void {
-  if (!BOT_TOKEN) return;
-  _deliverTelegram(event, page, revision, actor, comment).catch((err) => {
+/** `metadata` is the page's, for subscriptions that filter on it. */
+export function deliverTelegram(payload: WebhookPayload, metadata: unknown): void {
+  if (!BOT_TOKEN || !('page' in payload)) return;
+  _deliverTelegram(payload, metadata).catch((err) => {
     console.error('Telegram delivery error:', err);
   });
 }
 
-async function _deliverTelegram(
-  event: WebhookEvent,
-  page: { slug: string; title: string; tagPath: string; version: string },
-  revision?: { changeType: string; message?: string | null; version: string } | null,
-  actor?: { displayName?: string | null; radixAddress: string } | null,
-  comment?: { id: string; content: string; parentId?: string | null } | null,
-): Promise<void> {
+async function _deliverTelegram(payload: PagePayload, metadata: unknown): Promise<void> {
   const links = await prisma.telegramLink.findMany({
-    where: { active: true, events: { has: event } },
+    where: { active: true, events: { has: payload.event } },
+    include: { user: { select: { radixAddress: true } } },
   });
 
-  const matching = links.filter((l) => matchesSubscription(l, page));
+  const matching = links.filter((l) => matchesSubscription(l, payload.page)
+    && matchesFilters(l.filters as WebhookFilters | null, payload, { metadata, ownerAddress: l.user.radixAddress }));
 
   if (matching.length === 0) return;
 
   // Deduplicate by chatId — a user may have multiple matching subs (page + section)
   const uniqueChats = [...new Set(matching.map((l) => l.chatId))];
 
-  const actorForFormat = actor ? { displayName: actor.displayName, address: actor.radixAddress } : null;
-  const text = formatMessage(event, page, revision, actorForFormat, comment);
+  const text = formatMessage(payload);
 
   await Promise.allSettled(
     uniqueChats.map((chatId) => sendMessage(chatId, text)),
@@ -0,0 +1,44 @@
+// src/lib/trash.ts — Soft-deleted pages: who may restore them, and when they are purged for good
+
+import { prisma } from '@/lib/prisma/client';
+import { isAdmin } from '@/lib/auth';
+import type { AuthSession } from '@/types';
+
+/** Days a deleted page stays restorable before its row, history and comments are removed. */
+export const TRASH_RETENTION_DAYS = 30;
+
+/** The page's author and admins can restore it; everyone else only ever saw it disappear. */
+export const canRestore = (session: AuthSession, page: { authorId: string }): boolean =>
+  page.authorId === session.userId || isAdmin(session);
+
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Hard-delete pages whose retention window has lapsed. There is no scheduler, so
+ * this runs lazily from the trash's own routes — like expired sessions, which are
+ * removed when next seen. The cascade takes revisions, comments and notifications.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.page.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  return count;
+}
+
+/** Trashed pages the session may restore, most recently deleted first. */
+export async function getTrash(session: AuthSession) {
+  const pages = await prisma.page.findMany({
+    where: { deletedAt: { not: null }, ...(!isAdmin(session) && { authorId: session.userId }) },
+    select: { id: true, title: true, tagPath: true, slug: true, version: true, deletedAt: true, deletedById: true, authorId: true },
+    orderBy: { deletedAt: 'desc' },
+  });
+  const deleterIds = [...new Set(pages.map(p => p.deletedById).filter((id): id is string => !!id))];
+  const deleters = await prisma.user.findMany({ where: { id: { in: deleterIds } }, select: { id: true, displayName: true, radixAddress: true } });
+  const byId = new Map(deleters.map(u => [u.id, u]));
+  return pages.map(({ deletedById, ...p }) => ({
+    ...p,
+    deletedBy: deletedById ? byId.get(deletedById) ?? null : null,
+    purgeAt: purgeDate(p.deletedAt!),
+  }));
+}
@@ -86,15 +86,19 @@ export function getContentSnippet(content: unknown, maxLen = 150): string {
 
 /**
  * Snippet centred on the first occurrence of `query` anywhere in the page, so a search
- * result can show why it matched. Falls back to the page opening when the match is in
- * the title alone.
+ * result can show why it matched. Search is stemmed, so when the whole query isn't in
+ * the text this tries each word, then each word's leading characters ("staking" finds
+ * "stake"). Falls back to the page opening when the match is in the title alone.
  */
 export function getMatchSnippet(content: unknown, query: string, maxLen = 200): string {
   const term = query.trim();
   if (!term || !Array.isArray(content)) return getContentSnippet(content, maxLen);
 
   const text = toPlainText(collectText(content).join(' '));
-  const at = text.toLowerCase().indexOf(term.toLowerCase());
+  const lower = text.toLowerCase();
+  const words = term.toLowerCase().replace(/["*]/g, ' ').split(/\s+/).filter(w => w.length > 1);
+  const needles = [term.toLowerCase(), ...words, ...words.filter(w => w.length > 4).map(w => w.slice(0, Math.max(4, w.length - 3)))];
+  const at = needles.map(n => lower.indexOf(n)).find(i => i > -1) ?? -1;
   if (at === -1) return getContentSnippet(content, maxLen);
 
   // Keep ~a line of lead-in before the hit, starting at a word boundary.
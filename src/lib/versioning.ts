@@ -1,5 +1,7 @@
 // src/lib/versioning.ts - Semantic versioning with block-level tracking
 
+import fastDiff from 'fast-diff';
+import { stripHtml } from '@/lib/content';
 import type { Block, BlockType } from '@/types/blocks';
 
 // Semantic version type
@@ -9,7 +11,7 @@ interface SemVer {
   patch: number;
 }
 
-type ChangeType = 'major' | 'minor' | 'patch' | 'none';
+export type ChangeType = 'major' | 'minor' | 'patch' | 'none';
 
 // Block-level change tracking
 export interface BlockChange {
@@ -28,6 +30,8 @@ export interface RevisionDiff {
   titleChanged: boolean;
   bannerChanged: boolean;
   summary: string;
+  /** Why the edit got its change type, stored on the revision. */
+  rationale: string;
 }
 
 // Parse/format version strings
@@ -219,34 +223,83 @@ function diffBlocks(oldBlocks: Block[], newBlocks: Block[]): BlockChange[] {
   return changes;
 }
 
-// Determine change type from diff
+// ========== CLASSIFICATION POLICY ==========
+
+/** How an edit's size maps to a version bump. Tag paths override fields via `TagNode.versioning`. */
+export interface VersioningPolicy {
+  /** Characters inserted + deleted across all blocks at which an edit becomes major. */
+  majorDelta: number;
+  /** Characters inserted + deleted at which an edit becomes minor; below this it is a patch. */
+  minorDelta: number;
+  /** Treat any removed or reordered block as major, whatever its size. */
+  structuralIsMajor: boolean;
+}
+
+export const DEFAULT_VERSIONING_POLICY: VersioningPolicy = { majorDelta: 1500, minorDelta: 40, structuralIsMajor: false };
+
+export interface ClassifyOptions {
+  policy?: Partial<VersioningPolicy>;
+  /** The editor marked this as a minor edit: caps the bump at minor. */
+  minorEdit?: boolean;
+}
+
+// Characters inserted plus deleted, on visible text rather than markup.
+function textDelta(from: string, to: string): number {
+  const a = stripHtml(from || '');
+  const b = stripHtml(to || '');
+  if (a === b) return 0;
+  return fastDiff(a, b).reduce((sum, [op, text]) => sum + (op === 0 ? 0 : text.length), 0);
+}
+
+function changeDelta(change: BlockChange): number {
+  if (change.contentDiff) return textDelta(change.contentDiff.from, change.contentDiff.to);
+  const text = change.attributes?.text as { from: unknown; to: unknown } | undefined;
+  return text ? textDelta(String(text.from ?? ''), String(text.to ?? '')) : 0;
+}
+
+const fmt = (n: number) => n.toLocaleString('en-US');
+
 function classifyChanges(
   changes: BlockChange[],
   titleChanged: boolean,
-  bannerChanged: boolean
-): ChangeType {
-  if (changes.length === 0 && !titleChanged && !bannerChanged) return 'none';
-  
-  // Major: structural changes
-  const hasStructural = changes.some(c => 
-    c.action === 'added' || c.action === 'removed' || c.action === 'moved'
-  );
-  if (hasStructural) return 'major';
-  
-  // Minor: content modifications
-  const hasContent = changes.some(c => 
-    c.action === 'modified' && (c.contentDiff || c.attributes)
-  );
-  if (hasContent || titleChanged) return 'minor';
-  
-  // Patch: metadata only
-  if (bannerChanged) return 'patch';
-  
-  return 'patch';
+  bannerChanged: boolean,
+  reordered: Set<string>,
+  options: ClassifyOptions = {},
+): { changeType: ChangeType; rationale: string } {
+  if (changes.length === 0 && !titleChanged && !bannerChanged) return { changeType: 'none', rationale: 'No changes' };
+  const policy = { ...DEFAULT_VERSIONING_POLICY, ...options.policy };
+
+  // Containers only carry their children's changes; counting them too would double the delta.
+  const blocks = changes.filter(c => c.type !== 'infobox' && c.type !== 'columns');
+  const delta = blocks.reduce((sum, c) => sum + changeDelta(c), 0);
+  const structural = blocks.filter(c => c.action === 'removed' || (c.action === 'moved' && reordered.has(c.id)));
+  // Blocks without prose (price tickers, page lists…) have no text delta but still change what readers see.
+  // A prose block whose text is unchanged only had its markup touched — bold, a link — which stays a patch.
+  const hasText = (c: BlockChange) => !!c.contentDiff || !!c.attributes?.text;
+  const nonText = blocks.some(c => !hasText(c) && changeDelta(c) === 0 && c.action !== 'moved' && c.action !== 'removed');
+
+  let changeType: ChangeType;
+  let rationale: string;
+  if (delta >= policy.majorDelta) {
+    changeType = 'major'; rationale = `${fmt(delta)} characters changed (major at ${fmt(policy.majorDelta)})`;
+  } else if (policy.structuralIsMajor && structural.length) {
+    changeType = 'major'; rationale = `${structural.length} block${structural.length > 1 ? 's' : ''} removed or reordered`;
+  } else if (delta >= policy.minorDelta) {
+    changeType = 'minor'; rationale = `${fmt(delta)} characters changed (minor at ${fmt(policy.minorDelta)})`;
+  } else if (titleChanged || nonText || structural.length) {
+    changeType = 'minor'; rationale = titleChanged ? 'Title changed' : nonText ? 'Non-text block changed' : 'Blocks removed or reordered';
+  } else {
+    changeType = 'patch'; rationale = delta ? `${fmt(delta)} characters changed (below ${fmt(policy.minorDelta)})` : 'Banner or formatting only';
+  }
+
+  if (options.minorEdit && changeType === 'major') {
+    return { changeType: 'minor', rationale: `Marked as a minor edit by the editor; would be major: ${rationale}` };
+  }
+  return { changeType, rationale };
 }
 
 // Generate human-readable summary
-function generateChangeSummary(diff: Omit<RevisionDiff, 'summary'>): string {
+function generateChangeSummary(diff: Omit<RevisionDiff, 'summary' | 'rationale'>): string {
   const parts: string[] = [];
   
   if (diff.titleChanged) parts.push('title updated');
@@ -273,14 +326,289 @@ export function computeRevisionDiff(
   oldTitle: string,
   newTitle: string,
   oldBanner: string | null,
-  newBanner: string | null
+  newBanner: string | null,
+  options?: ClassifyOptions,
 ): RevisionDiff {
   const changes = diffBlocks(oldContent, newContent);
   const titleChanged = oldTitle !== newTitle;
   const bannerChanged = oldBanner !== newBanner;
-  const changeType = classifyChanges(changes, titleChanged, bannerChanged);
+  // diffBlocks marks every block below an insertion as moved; only real reorders are structural.
+  const reordered = new Set([...sideChanges(oldContent, newContent)].filter(([, cs]) => cs.some(c => c.action === 'moved')).map(([id]) => id));
+  const { changeType, rationale } = classifyChanges(changes, titleChanged, bannerChanged, reordered, options);
   const version = incrementVersion(parseVersion(currentVersion), changeType);
   
   const partial = { version, changeType, changes, titleChanged, bannerChanged };
-  return { ...partial, summary: generateChangeSummary(partial) };
-}
\ No newline at end of file
+  return { ...partial, summary: generateChangeSummary(partial), rationale };
+}
+
+// ========== THREE-WAY MERGE ==========
+// Two editors who load the same version each produce a diff against it. Applying
+// the incoming diff on top of the current head keeps both edits, as long as no
+// block was touched by both — those come back as conflicts instead.
+
+export interface MergeConflict {
+  id: string; // block id, or 'title'
+  type: BlockType | 'title';
+  path: string;
+  head: BlockChange['action']; // what the already-saved edit did
+  incoming: BlockChange['action']; // what the edit being saved does
+}
+
+export interface MergeInput {
+  content: Block[];
+  title: string;
+}
+
+export type MergeResult =
+  | { ok: true; content: Block[]; title: string }
+  | { ok: false; conflicts: MergeConflict[] };
+
+// Where a block sits: the top level ('root'), an infobox (its block id), or a column (its column id).
+interface Placement {
+  block: Block;
+  container: string;
+  path: string;
+}
+
+function indexPlacements(blocks: Block[]): { byId: Map<string, Placement>; order: Map<string, string[]> } {
+  const byId = new Map<string, Placement>();
+  const order = new Map<string, string[]>();
+  const add = (list: Block[], container: string, basePath: string) => {
+    order.set(container, list.map(b => b.id));
+    list.forEach((block, i) => {
+      const path = `${basePath}.${i}`;
+      byId.set(block.id, { block, container, path });
+      if (block.type === 'columns') block.columns.forEach((col, ci) => add(col.blocks, col.id, `${path}.columns.${ci}.blocks`));
+      else if (block.type === 'infobox') add(block.blocks, block.id, `${path}.blocks`);
+    });
+  };
+  add(blocks, 'root', 'root');
+  return { byId, order };
+}
+
+// Longest common subsequence of two id orderings — the blocks that kept their relative order.
+function stableIds(a: string[], b: string[]): Set<string> {
+  const dp = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i]![j] = a[i] === b[j] ? dp[i + 1]![j + 1]! + 1 : Math.max(dp[i + 1]![j]!, dp[i]![j + 1]!);
+    }
+  }
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) { kept.add(a[i]!); i++; j++; }
+    else if (dp[i + 1]![j]! >= dp[i]![j + 1]!) i++;
+    else j++;
+  }
+  return kept;
+}
+
+/**
+ * Block changes one side made against the common base, keyed by block id.
+ * `diffBlocks` reports a block as moved whenever its path shifts, so one inserted
+ * paragraph "moves" everything below it; for merging, a block only counts as moved
+ * when it changed container or fell out of its container's stable ordering.
+ */
+function sideChanges(base: Block[], side: Block[]): Map<string, BlockChange[]> {
+  const baseIndex = indexPlacements(base);
+  const sideIndex = indexPlacements(side);
+  const result = new Map<string, BlockChange[]>();
+  const push = (change: BlockChange) => result.set(change.id, [...(result.get(change.id) ?? []), change]);
+
+  for (const change of diffBlocks(base, side)) {
+    if (change.action !== 'moved') push(change);
+  }
+
+  for (const [container, sideOrder] of sideIndex.order) {
+    const shared = (ids: string[]) => ids.filter(id => baseIndex.byId.get(id)?.container === container && sideIndex.byId.get(id)?.container === container);
+    const kept = stableIds(shared(baseIndex.order.get(container) ?? []), shared(sideOrder));
+    for (const id of sideOrder) {
+      const from = baseIndex.byId.get(id);
+      const to = sideIndex.byId.get(id)!;
+      if (!from || (from.container === container && kept.has(id))) continue;
+      push({ id, action: 'moved', type: to.block.type, path: to.path, attributes: { position: { from: from.path, to: to.path } } });
+    }
+  }
+  return result;
+}
+
+function containerList(blocks: Block[], container: string): Block[] | null {
+  if (container === 'root') return blocks;
+  for (const block of blocks) {
+    if (block.type === 'infobox' && block.id === container) return block.blocks as Block[];
+    if (block.type === 'columns') {
+      const col = block.columns.find(c => c.id === container);
+      if (col) return col.blocks as Block[];
+    }
+  }
+  return null;
+}
+
+function removeBlock(blocks: Block[], id: string): void {
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i]!;
+    if (block.id === id) { blocks.splice(i, 1); continue; }
+    if (block.type === 'infobox') removeBlock(block.blocks as Block[], id);
+    else if (block.type === 'columns') block.columns.forEach(col => removeBlock(col.blocks as Block[], id));
+  }
+}
+
+function findBlock(blocks: Block[], id: string): Block | null {
+  for (const block of blocks) {
+    if (block.id === id) return block;
+    const nested = block.type === 'infobox' ? findBlock(block.blocks, id)
+      : block.type === 'columns' ? block.columns.reduce<Block | null>((hit, col) => hit ?? findBlock(col.blocks, id), null)
+      : null;
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/** Overwrite a block's own fields with another version's, leaving nested blocks alone. */
+function copyOwnFields(target: Block, source: Block): void {
+  const t = target as unknown as Record<string, unknown>;
+  for (const key of Object.keys(t)) {
+    if (key !== 'columns' && key !== 'blocks') delete t[key];
+  }
+  for (const [key, value] of Object.entries(source)) {
+    if (key !== 'columns' && key !== 'blocks') t[key] = structuredClone(value);
+  }
+}
+
+/** Insert after the nearest block that precedes it in `siblings` (the ordering it should follow) and still exists in `list`. */
+function insertAfterPredecessor(list: Block[], block: Block, siblings: string[]): void {
+  let at = 0;
+  for (let k = siblings.indexOf(block.id) - 1; k >= 0; k--) {
+    const prev = list.findIndex(b => b.id === siblings[k]);
+    if (prev !== -1) { at = prev + 1; break; }
+  }
+  list.splice(at, 0, block);
+}
+
+function primaryAction(changes: BlockChange[]): BlockChange['action'] {
+  return changes.find(c => c.action !== 'moved')?.action ?? 'moved';
+}
+
+/**
+ * Three-way merge of a page edit. `base` is the revision the editor loaded, `head`
+ * the page as currently saved, `incoming` the edit being saved. Blocks only the
+ * incoming edit touched are replayed onto the head; blocks both sides touched
+ * conflict unless both arrived at the same result.
+ */
+export function mergeRevisions(base: MergeInput, head: MergeInput, incoming: MergeInput): MergeResult {
+  const headChanges = sideChanges(base.content, head.content);
+  const incomingChanges = sideChanges(base.content, incoming.content);
+  const headIndex = indexPlacements(head.content);
+  const incomingIndex = indexPlacements(incoming.content);
+  const conflicts: MergeConflict[] = [];
+
+  let title = head.title;
+  if (incoming.title !== base.title && incoming.title !== head.title) {
+    if (head.title === base.title) title = incoming.title;
+    else conflicts.push({ id: 'title', type: 'title', path: 'title', head: 'modified', incoming: 'modified' });
+  }
+
+  // Both sides touched the block: fine only if they converged on the same block in the same place.
+  const apply = new Map<string, BlockChange[]>();
+  for (const [id, changes] of incomingChanges) {
+    const theirs = headChanges.get(id);
+    if (!theirs) { apply.set(id, changes); continue; }
+    const h = headIndex.byId.get(id);
+    const i = incomingIndex.byId.get(id);
+    const converged = (!h && !i) || (h && i && h.container === i.container && blockSignature(h.block) === blockSignature(i.block));
+    if (!converged) {
+      conflicts.push({ id, type: (i ?? h)?.block.type ?? changes[0]!.type, path: h?.path ?? changes[0]!.path, head: primaryAction(theirs), incoming: primaryAction(changes) });
+    }
+  }
+
+  const merged = structuredClone(head.content);
+
+  // Removals first, so a removed container can't swallow blocks placed below.
+  for (const [id, changes] of apply) {
+    if (!changes.some(c => c.action === 'removed')) continue;
+    const gone = headIndex.byId.get(id);
+    if (gone && (gone.block.type === 'infobox' || gone.block.type === 'columns')) {
+      // The head put new blocks inside a container the incoming edit deletes.
+      const inside = [...headIndex.byId.values()].filter(p => findBlock([gone.block], p.block.id) && p.block.id !== id);
+      const added = inside.find(p => headChanges.get(p.block.id)?.some(c => c.action === 'added' || c.action === 'moved'));
+      if (added) { conflicts.push({ id, type: gone.block.type, path: gone.path, head: primaryAction(headChanges.get(added.block.id)!), incoming: 'removed' }); continue; }
+    }
+    removeBlock(merged, id);
+  }
+
+  // Attribute edits replace the block's own fields; nested blocks are merged individually.
+  for (const [id, changes] of apply) {
+    if (!changes.some(c => c.action === 'modified')) continue;
+    const target = findBlock(merged, id);
+    const source = incomingIndex.byId.get(id)?.block;
+    if (target && source) copyOwnFields(target, source);
+  }
+
+  // Additions and moves in incoming document order, each after its nearest surviving predecessor.
+  for (const { block } of extractBlocks(incoming.content)) {
+    const changes = apply.get(block.id);
+    if (!changes?.some(c => c.action === 'added' || c.action === 'moved')) continue;
+    const placement = incomingIndex.byId.get(block.id)!;
+    const list = containerList(merged, placement.container);
+    if (!list) {
+      const owner = [...headIndex.byId.values()].find(p => p.block.id === placement.container) ?? incomingIndex.byId.get(placement.container);
+      conflicts.push({ id: placement.container, type: owner?.block.type ?? 'infobox', path: owner?.path ?? placement.path, head: 'removed', incoming: primaryAction(changes) });
+      continue;
+    }
+    const existing = findBlock(merged, block.id);
+    removeBlock(merged, block.id);
+    insertAfterPredecessor(list, existing && !changes.some(c => c.action === 'added') ? existing : structuredClone(block), incomingIndex.order.get(placement.container)!);
+  }
+
+  if (conflicts.length) return { ok: false, conflicts };
+  return { ok: true, content: merged, title };
+}
+
+/**
+ * Undo one block's change from a single revision: `after` with block `id` put back
+ * the way it was in `before` (re-inserted, removed, moved back, or its fields restored).
+ * Returns null when the container it lived in no longer exists.
+ */
+export function revertBlock(before: Block[], after: Block[], id: string): Block[] | null {
+  const result = structuredClone(after);
+  const beforeIndex = indexPlacements(before);
+  const prior = beforeIndex.byId.get(id);
+  if (!prior) { removeBlock(result, id); return result; }
+
+  const current = findBlock(result, id);
+  if (current) copyOwnFields(current, prior.block);
+  removeBlock(result, id);
+  const list = containerList(result, prior.container);
+  if (!list) return null;
+  insertAfterPredecessor(list, current ?? structuredClone(prior.block), beforeIndex.order.get(prior.container)!);
+  return result;
+}
+
+// ========== BLAME ==========
+
+export interface BlameRevision {
+  content: Block[];
+  changes: BlockChange[] | null;
+}
+
+/**
+ * Index of the revision (oldest first) that last added or edited each block.
+ * Moves don't count — blame follows the words, not their position. Revisions
+ * stored without changes (seeded pages, restores) are re-diffed against their predecessor.
+ */
+export function blameBlocks(revisions: BlameRevision[]): Map<string, number> {
+  const blame = new Map<string, number>();
+  revisions.forEach((rev, i) => {
+    const changes = rev.changes?.length ? rev.changes : diffBlocks(revisions[i - 1]?.content ?? [], rev.content);
+    for (const change of changes) {
+      if (change.action === 'added' || change.action === 'modified') blame.set(change.id, i);
+      else if (change.action === 'removed') blame.delete(change.id);
+    }
+  });
+  return blame;
+}
+
+/** Every block with its path and nesting depth (0 = top level, 1 = inside an infobox or column). */
+export function flattenBlocks(blocks: Block[]): { block: Block; path: string; depth: number }[] {
+  return extractBlocks(blocks).map(({ block, path }) => ({ block, path, depth: path.split('.').length > 2 ? 1 : 0 }));
+}
@@ -0,0 +1,115 @@
+// src/lib/webhook-filters.ts — Filters that narrow what a webhook or Telegram subscription
+// receives beyond its events and tag path: change types to skip, single pages, metadata values,
+// and the owner's own doings. Every filter that is set must pass.
+
+import { METADATA_KEYS_BY_NAME } from '@/lib/tags';
+import type { ChangeType } from '@/lib/versioning';
+import type { WebhookPayload } from '@/lib/webhooks';
+
+/** A metadata condition: `key` holds `value` on the page — or, with `transition`, the event set it so. */
+export interface MetadataFilter {
+  key: string;
+  value: string;
+  /** Pass only the `metadata.changed` that moved `key` to `value`, not every later event. */
+  transition?: boolean;
+}
+
+export interface WebhookFilters {
+  /** Revisions of these change types are left out, e.g. `['patch']`. Events without a revision pass. */
+  skipChangeTypes?: ChangeType[];
+  /** Only events about these pages, each as `tagPath/slug`. */
+  pages?: string[];
+  metadata?: MetadataFilter[];
+  /** Leave out events the owner caused. */
+  excludeOwn?: boolean;
+}
+
+/** What an event is matched against besides its payload. */
+export interface FilterContext {
+  /** The page's metadata after the event, for events about a page. */
+  metadata: unknown;
+  /** The address of whoever owns the webhook or subscription. */
+  ownerAddress: string;
+}
+
+const CHANGE_TYPES: ChangeType[] = ['major', 'minor', 'patch'];
+const MAX_PAGES = 50;
+const MAX_METADATA = 10;
+
+/**
+ * Select options carry an emoji marker ("🟡 Approved"); `Approved` matches them, as search's
+ * `status:Approved` does. Other values compare whole, so `approved` never matches `not approved`.
+ */
+function metadataMatches(key: string, stored: unknown, value: string): boolean {
+  const text = String(stored ?? '').trim().toLowerCase();
+  const wanted = value.trim().toLowerCase();
+  if (text === wanted) return true;
+
+  const definition = METADATA_KEYS_BY_NAME.get(key.toLowerCase());
+  const space = text.indexOf(' ');
+  if (definition?.type !== 'select' || space < 0) return false;
+  const marker = text.slice(0, space);
+  const isMarker = /^\p{Extended_Pictographic}/u.test(marker)
+    || !!definition.options?.some(option => option.toLowerCase().startsWith(`${marker} `));
+  return isMarker && text.slice(space + 1) === wanted;
+}
+
+export function matchesFilters(filters: WebhookFilters | null, payload: WebhookPayload, context: FilterContext): boolean {
+  if (!filters) return true;
+  const page = 'page' in payload ? payload.page : null;
+
+  if (filters.excludeOwn && payload.actor?.address === context.ownerAddress) return false;
+  if (filters.skipChangeTypes?.length && 'revision' in payload && filters.skipChangeTypes.includes(payload.revision.changeType as ChangeType)) return false;
+  if (filters.pages?.length && (!page || !filters.pages.includes(`${page.tagPath}/${page.slug}`))) return false;
+
+  if (filters.metadata?.length) {
+    if (!page) return false;
+    const metadata = (context.metadata && typeof context.metadata === 'object' ? context.metadata : {}) as Record<string, unknown>;
+    for (const { key, value, transition } of filters.metadata) {
+      if (!metadataMatches(key, metadata[key], value)) return false;
+      if (transition && !(payload.event === 'metadata.changed' && payload.changes.some(c => c.key === key && metadataMatches(key, c.to, value)))) return false;
+    }
+  }
+  return true;
+}
+
+/** Check and tidy filters sent by a client; `null` when none are set. */
+export function parseWebhookFilters(value: unknown): { filters: WebhookFilters | null } | { error: string } {
+  if (value === undefined || value === null) return { filters: null };
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: 'filters must be an object' };
+  const { skipChangeTypes, pages, metadata, excludeOwn } = value as Record<string, unknown>;
+  const filters: WebhookFilters = {};
+
+  if (skipChangeTypes !== undefined) {
+    if (!Array.isArray(skipChangeTypes) || !skipChangeTypes.every(t => CHANGE_TYPES.includes(t))) {
+      return { error: `filters.skipChangeTypes must list change types from: ${CHANGE_TYPES.join(', ')}` };
+    }
+    if (skipChangeTypes.length) filters.skipChangeTypes = [...new Set(skipChangeTypes as ChangeType[])];
+  }
+
+  if (pages !== undefined) {
+    if (!Array.isArray(pages) || !pages.every(p => typeof p === 'string')) return { error: 'filters.pages must be a list of page paths' };
+    const paths = [...new Set((pages as string[]).map(p => p.trim().replace(/^\/+|\/+$/g, '')).filter(Boolean))];
+    if (paths.length > MAX_PAGES) return { error: `filters.pages can list at most ${MAX_PAGES} pages` };
+    if (paths.some(p => !p.includes('/'))) return { error: 'filters.pages entries must be tagPath/slug' };
+    if (paths.length) filters.pages = paths;
+  }
+
+  if (metadata !== undefined) {
+    if (!Array.isArray(metadata) || metadata.length > MAX_METADATA) return { error: `filters.metadata must be a list of at most ${MAX_METADATA} conditions` };
+    const conditions: MetadataFilter[] = [];
+    for (const condition of metadata as Record<string, unknown>[]) {
+      const key = typeof condition?.key === 'string' ? condition.key.trim() : '';
+      if (!key || typeof condition.value !== 'string') return { error: 'filters.metadata conditions need a key and a string value' };
+      conditions.push({ key, value: condition.value.trim(), ...(condition.transition === true && { transition: true }) });
+    }
+    if (conditions.length) filters.metadata = conditions;
+  }
+
+  if (excludeOwn !== undefined) {
+    if (typeof excludeOwn !== 'boolean') return { error: 'filters.excludeOwn must be true or false' };
+    if (excludeOwn) filters.excludeOwn = true;
+  }
+
+  return { filters: Object.keys(filters).length ? filters : null };
+}
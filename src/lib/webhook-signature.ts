@@ -0,0 +1,48 @@
+// src/lib/webhook-signature.ts — The webhook signature scheme: signing here, verifying at the
+// receiver. Depends on nothing but node:crypto, so a receiver written in TypeScript can copy
+// this file as it is.
+//
+//   X-Webhook-Signature: t=1767225600,v1=5257a869e7…[,v1=…]
+//
+// `t` is when the request was signed, in Unix seconds. Each `v1` is the hex HMAC-SHA256 of
+// `${t}.${deliveryId}.${body}` under one of the webhook's secrets — two while a rotated-out
+// secret is still honoured — where the delivery id is the X-Webhook-Delivery header and the
+// body is the raw request body. Retries are signed afresh. A receiver accepts a request when
+// one `v1` matches its secret and `t` is recent; remembering the delivery ids it has seen
+// also refuses a replay inside that window.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+/** How far a signature's `t` may be from now, either way, before it is refused. */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function hmac(secret: string, timestamp: number, deliveryId: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${deliveryId}.${body}`).digest('hex');
+}
+
+/** The signature header for a request, with one `v1` per secret. */
+export function signWebhook(body: string, deliveryId: string, secrets: string[], timestamp = Math.floor(Date.now() / 1000)): string {
+  return [`t=${timestamp}`, ...secrets.map(secret => `v1=${hmac(secret, timestamp, deliveryId, body)}`)].join(',');
+}
+
+/**
+ * Whether a request came from the wiki: `header` is X-Webhook-Signature, `deliveryId`
+ * X-Webhook-Delivery, and `body` the raw body, before any JSON parsing.
+ */
+export function verifyWebhookSignature({ body, deliveryId, header, secret, toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS, now = Date.now() }: {
+  body: string; deliveryId: string; header: string; secret: string; toleranceSeconds?: number; now?: number;
+}): boolean {
+  let timestamp = NaN;
+  const signatures: Buffer[] = [];
+  for (const part of header.split(',')) {
+    const [key, value = ''] = part.trim().split('=');
+    if (key === 't') timestamp = Number(value);
+    else if (key === 'v1') signatures.push(Buffer.from(value, 'hex'));
+  }
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, deliveryId, body), 'hex');
+  return signatures.some(signature => signature.length === expected.length && timingSafeEqual(signature, expected));
+}
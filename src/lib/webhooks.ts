@@ -1,102 +1,386 @@
-// src/lib/webhooks.ts — Webhook delivery
+// src/lib/webhooks.ts — Webhook delivery. Every event is logged per webhook in `webhook_deliveries`
+// and sent at once; failures are retried with exponential backoff by the delivery worker, and a
+// webhook that keeps failing is switched off until its owner turns it back on.
 
-import { createHmac, randomBytes } from 'crypto';
+import { randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma/client';
 import { deliverTelegram } from '@/lib/telegram';
+import { signWebhook, SIGNATURE_HEADER, DELIVERY_HEADER } from '@/lib/webhook-signature';
+import type { BlockChange } from '@/lib/versioning';
+import { matchesFilters, type WebhookFilters } from '@/lib/webhook-filters';
 
-export type WebhookEvent = 'page.created' | 'page.updated' | 'page.deleted' | 'comment.created';
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/** How long a rotated-out secret keeps signing alongside its replacement, for receivers to switch over. */
+export const SECRET_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+/** The secrets a webhook signs with now: its own, and the one it replaced while the overlap lasts. */
+function signingSecrets(webhook: { secret: string; previousSecret: string | null; previousSecretExpiresAt: Date | null }): string[] {
+  const overlapping = webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt.getTime() > Date.now();
+  return overlapping ? [webhook.secret, webhook.previousSecret!] : [webhook.secret];
+}
+
+/** Never sent back to a webhook's owner: the secret it rotated out, still valid for a while. */
+export const WEBHOOK_OMIT = { previousSecret: true } as const;
+
+/**
+ * A webhook as its owner sees it after creation: the secret is shown once, then only its
+ * tail, and the rotation overlap only while it lasts.
+ */
+export function maskSecret<T extends { secret: string; previousSecretExpiresAt: Date | null }>(webhook: T) {
+  const overlap = webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt.getTime() > Date.now() ? webhook.previousSecretExpiresAt : null;
+  return { ...webhook, secret: `...${webhook.secret.slice(-8)}`, previousSecretExpiresAt: overlap };
+}
+
+/** Give a webhook a new secret; the old one keeps signing for `SECRET_ROTATION_OVERLAP_MS`. */
+export async function rotateWebhookSecret(id: string) {
+  const { secret } = await prisma.webhook.findUniqueOrThrow({ where: { id }, select: { secret: true } });
+  return prisma.webhook.update({
+    where: { id },
+    data: { secret: generateWebhookSecret(), previousSecret: secret, previousSecretExpiresAt: new Date(Date.now() + SECRET_ROTATION_OVERLAP_MS) },
+    omit: WEBHOOK_OMIT,
+  });
+}
+
+// ========== EVENTS ==========
+
+/** A page as every page event carries it, at its current address. */
+export interface WebhookPage {
+  slug: string;
+  title: string;
+  tagPath: string;
+  version: string;
+  url: string;
+}
+
+/** Whoever caused the event. */
+export interface WebhookActor {
+  displayName?: string | null;
+  address: string;
+}
 
-export const VALID_EVENTS: WebhookEvent[] = ['page.created', 'page.updated', 'page.deleted', 'comment.created'];
+export interface WebhookRevision {
+  changeType: string;
+  message?: string | null;
+  version: string;
+}
+
+/** The revision of a `page.updated`: which version it replaced, and the block changes for webhooks that asked for them. */
+export interface WebhookRevisionDiff extends WebhookRevision {
+  previousVersion: string;
+  /** Only with `includeDiff`, and cut short to fit `DIFF_MAX_LENGTH`. */
+  changes?: BlockChange[];
+  /** How many changes were cut to fit; absent when all of them are there. */
+  changesOmitted?: number;
+}
+
+/** One metadata key whose value changed; `from` is null when it was added, `to` when it was removed. */
+export interface MetadataChange {
+  key: string;
+  from: unknown;
+  to: unknown;
+}
 
-interface WebhookPayload {
-  event: WebhookEvent;
-  timestamp: string;
-  page: {
-    slug: string;
-    title: string;
-    tagPath: string;
-    version: string;
-    url: string;
+/**
+ * The event catalogue: what each event's payload carries besides `event` and `timestamp`.
+ * `airdrop.recorded` is the only one without a page, so webhooks with a tag path filter
+ * never receive it.
+ */
+export interface WebhookEventPayloads {
+  /** A page was published. */
+  'page.created': { page: WebhookPage; revision: WebhookRevision; actor?: WebhookActor };
+  /** A page has a new version — an edit, an accepted review or rewritten links. */
+  'page.updated': { page: WebhookPage; revision: WebhookRevisionDiff; actor?: WebhookActor };
+  /** A page was moved to the trash. */
+  'page.deleted': { page: WebhookPage; actor?: WebhookActor };
+  /** A page came back out of the trash. */
+  'page.restored': { page: WebhookPage; actor?: WebhookActor };
+  /** A page changed address; `page` is where it lives now, `from` where it was. */
+  'page.moved': { page: WebhookPage; from: { tagPath: string; slug: string }; actor?: WebhookActor };
+  /**
+   * An editor confirmed a page is still accurate. `verifiedAt` is an ISO timestamp.
+   * Not emitted yet: no route stamps `lastVerifiedAt`, so subscribing to it receives nothing for now.
+   */
+  'page.verified': { page: WebhookPage; verifiedAt: string; actor?: WebhookActor };
+  /** A page's metadata changed, one entry per changed key. */
+  'metadata.changed': { page: WebhookPage; changes: MetadataChange[]; actor?: WebhookActor };
+  'comment.created': { page: WebhookPage; comment: { id: string; content: string; parentId?: string | null }; actor?: WebhookActor };
+  /** A comment was deleted; its replies go with it. */
+  'comment.deleted': { page: WebhookPage; comment: { id: string; parentId?: string | null }; actor?: WebhookActor };
+  /** A page's on-ledger backup transaction was recorded, after the gateway reported it committed. */
+  'ledger.backup.confirmed': { page: WebhookPage; txHash: string; actor?: WebhookActor };
+  /** An editor reward airdrop was recorded. */
+  'airdrop.recorded': {
+    airdrop: { id: string; totalXrd: number; editorCount: number; txHash: string | null; createdAt: string };
+    actor?: WebhookActor;
   };
-  revision?: { changeType: string; message?: string | null; version: string };
-  actor?: { displayName?: string | null; address: string };
-  comment?: { id: string; content: string; parentId?: string | null };
 }
 
-export function generateWebhookSecret(): string {
-  return randomBytes(32).toString('hex');
+export type WebhookEvent = keyof WebhookEventPayloads;
+
+/** The body POSTed for an event. */
+export type WebhookPayload<E extends WebhookEvent = WebhookEvent> = {
+  [K in E]: { event: K; timestamp: string } & WebhookEventPayloads[K];
+}[E];
+
+export const VALID_EVENTS: WebhookEvent[] = [
+  'page.created', 'page.updated', 'page.deleted', 'page.restored', 'page.moved', 'page.verified',
+  'metadata.changed', 'comment.created', 'comment.deleted', 'ledger.backup.confirmed', 'airdrop.recorded',
+];
+
+/** `metadata` is only matched against filters, never sent. */
+type PageRef = { slug: string; title: string; tagPath: string; version: string; metadata?: unknown };
+type ActorRef = { displayName?: string | null; radixAddress: string };
+
+/** What a route hands over for an event: the page and the user as it has them, the URL and address filled in here. */
+export type WebhookEventInput<E extends WebhookEvent> = {
+  [K in keyof WebhookEventPayloads[E]]: K extends 'page' ? PageRef : K extends 'actor' ? ActorRef | null : WebhookEventPayloads[E][K];
+};
+
+/** The keys whose values differ between two metadata objects, for `metadata.changed`. */
+export function metadataChanges(before: unknown, after: unknown): MetadataChange[] {
+  const from = (before && typeof before === 'object' ? before : {}) as Record<string, unknown>;
+  const to = (after && typeof after === 'object' ? after : {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(key => JSON.stringify(from[key] ?? null) !== JSON.stringify(to[key] ?? null))
+    .map(key => ({ key, from: from[key] ?? null, to: to[key] ?? null }));
 }
 
-function signPayload(payload: string, secret: string): string {
-  return createHmac('sha256', secret).update(payload).digest('hex');
+function buildPayload<E extends WebhookEvent>(event: E, input: WebhookEventInput<E>): WebhookPayload {
+  const { page, actor, ...fields } = input as { page?: PageRef; actor?: ActorRef | null };
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://radix.wiki';
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    ...fields,
+    ...(page && {
+      page: {
+        slug: page.slug,
+        title: page.title,
+        tagPath: page.tagPath,
+        version: page.version,
+        url: page.tagPath ? `${appUrl}/${page.tagPath}/${page.slug}` : appUrl,
+      },
+    }),
+    ...(actor && { actor: { displayName: actor.displayName, address: actor.radixAddress } }),
+  } as WebhookPayload;
 }
 
-export function deliverWebhooks(
-  event: WebhookEvent,
-  page: { slug: string; title: string; tagPath: string; version: string },
-  revision?: { changeType: string; message?: string | null; version: string } | null,
-  actor?: { displayName?: string | null; radixAddress: string } | null,
-  comment?: { id: string; content: string; parentId?: string | null } | null,
-): void {
-  // Fire-and-forget — errors logged, never thrown to caller
-  _deliver(event, page, revision, actor, comment).catch((err) => {
+// ========== DELIVERY ==========
+
+/** Attempts per delivery, the first included: retries follow 30s, 2m, 8m, 32m and ~2h after each failure. */
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30_000;
+const RETRY_FACTOR = 4;
+const DELIVERY_TIMEOUT_MS = 5000;
+/** Failed attempts in a row, across deliveries, after which a webhook is switched off: about four deliveries that used every retry. */
+const DISABLE_AFTER_FAILURES = 25;
+/** How much of a receiver's reply the log keeps. */
+const RESPONSE_BODY_MAX = 2000;
+/** A claimed delivery is someone else's to retry once this passes — the claimant died mid-attempt. */
+const CLAIM_LEASE_MS = 60_000;
+const DELIVERY_RETENTION_DAYS = 30;
+
+/** What the delivery log shows of each delivery. */
+export const DELIVERY_SELECT = {
+  id: true, event: true, status: true, attempts: true, responseStatus: true, responseBody: true,
+  error: true, durationMs: true, nextAttemptAt: true, lastAttemptAt: true, createdAt: true,
+} as const;
+
+const claimUntil = () => new Date(Date.now() + CLAIM_LEASE_MS);
+
+/** Send an event to every webhook and Telegram chat subscribed to it. Fire-and-forget — errors are logged, never thrown to the caller. */
+export function deliverWebhooks<E extends WebhookEvent>(event: E, input: WebhookEventInput<E>): void {
+  const payload = buildPayload(event, input);
+  const metadata = (input as { page?: PageRef }).page?.metadata ?? null;
+  _deliver(payload, metadata).catch((err) => {
     console.error('Webhook delivery error:', err);
   });
-  deliverTelegram(event, page, revision, actor, comment);
+  deliverTelegram(payload, metadata);
+}
+
+/** How much block diff, as JSON, one payload carries; the changes past it are counted, not sent. */
+const DIFF_MAX_LENGTH = 64_000;
+
+function capChanges(changes: BlockChange[]): { changes: BlockChange[]; changesOmitted?: number } {
+  const kept: BlockChange[] = [];
+  let length = 0;
+  for (const change of changes) {
+    length += JSON.stringify(change).length + 1;
+    if (length > DIFF_MAX_LENGTH) break;
+    kept.push(change);
+  }
+  return kept.length < changes.length ? { changes: kept, changesOmitted: changes.length - kept.length } : { changes };
+}
+
+/** A payload as a webhook receives it: the block changes of a `page.updated` only if it opted in. */
+function payloadFor(payload: WebhookPayload, includeDiff: boolean): WebhookPayload {
+  if (payload.event !== 'page.updated' || !payload.revision.changes) return payload;
+  const { changes, ...revision } = payload.revision;
+  return { ...payload, revision: includeDiff ? { ...revision, ...capChanges(changes) } : revision };
 }
 
-async function _deliver(
-  event: WebhookEvent,
-  page: { slug: string; title: string; tagPath: string; version: string },
-  revision?: { changeType: string; message?: string | null; version: string } | null,
-  actor?: { displayName?: string | null; radixAddress: string } | null,
-  comment?: { id: string; content: string; parentId?: string | null } | null,
-): Promise<void> {
+async function _deliver(payload: WebhookPayload, metadata: unknown): Promise<void> {
   const webhooks = await prisma.webhook.findMany({
-    where: { active: true, events: { has: event } },
+    where: { active: true, events: { has: payload.event } },
+    include: { user: { select: { radixAddress: true } } },
   });
 
+  const page = 'page' in payload ? payload.page : null;
   const matching = webhooks.filter(
-    (w) => !w.tagPathFilter || page.tagPath.startsWith(w.tagPathFilter),
+    (w) => (!w.tagPathFilter || (page !== null && page.tagPath.startsWith(w.tagPathFilter)))
+      && matchesFilters(w.filters as WebhookFilters | null, payload, { metadata, ownerAddress: w.user.radixAddress }),
   );
 
   if (matching.length === 0) return;
 
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://radix.wiki';
-  const pageUrl = page.tagPath ? `${appUrl}/${page.tagPath}/${page.slug}` : appUrl;
+  const bodies = { plain: payloadFor(payload, false), diffed: payloadFor(payload, true) };
+  // Claimed as they are created, so the worker leaves the first attempt to us.
+  const deliveries = await prisma.webhookDelivery.createManyAndReturn({
+    data: matching.map((webhook) => ({
+      webhookId: webhook.id, event: payload.event,
+      payload: (webhook.includeDiff ? bodies.diffed : bodies.plain) as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: claimUntil(),
+    })),
+    select: { id: true },
+  });
+  await Promise.allSettled(deliveries.map(({ id }) => attemptDelivery(id)));
+}
 
-  const payload: WebhookPayload = {
-    event,
-    timestamp: new Date().toISOString(),
-    page: {
-      slug: page.slug,
-      title: page.title,
-      tagPath: page.tagPath,
-      version: page.version,
-      url: pageUrl,
+/**
+ * POST a claimed delivery once and record how it went. A 2xx settles it; anything else
+ * schedules the next retry, or fails it for good once the attempts run out.
+ */
+async function attemptDelivery(id: string): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({ where: { id }, include: { webhook: true } });
+  if (!delivery || delivery.status !== 'pending') return;
+  const { webhook } = delivery;
+  if (!webhook.active) {
+    await prisma.webhookDelivery.update({ where: { id }, data: { status: 'failed', error: 'Webhook is disabled', nextAttemptAt: null } });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signWebhook(body, id, signingSecrets(webhook)),
+        'X-Webhook-Event': delivery.event,
+        [DELIVERY_HEADER]: id,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text().catch(() => '')).slice(0, RESPONSE_BODY_MAX) || null;
+    if (!res.ok) error = `Receiver responded ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retry = error !== null && attempts < MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      attempts, responseStatus, responseBody, error,
+      durationMs: Date.now() - started,
+      lastAttemptAt: new Date(),
+      status: error === null ? 'succeeded' : retry ? 'pending' : 'failed',
+      nextAttemptAt: retry ? new Date(Date.now() + RETRY_BASE_MS * RETRY_FACTOR ** (attempts - 1)) : null,
     },
-    ...(revision && { revision }),
-    ...(actor && { actor: { displayName: actor.displayName, address: actor.radixAddress } }),
-    ...(comment && { comment }),
-  };
+  });
+  await recordOutcome(webhook.id, error === null);
+}
 
-  const body = JSON.stringify(payload);
-
-  await Promise.allSettled(
-    matching.map((webhook) => {
-      const signature = signPayload(body, webhook.secret);
-      return fetch(webhook.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': signature,
-          'X-Webhook-Event': event,
-        },
-        body,
-        signal: AbortSignal.timeout(5000),
-      }).catch((err) => {
-        console.error(`Webhook ${webhook.id} delivery failed:`, err);
-      });
-    }),
-  );
+async function recordOutcome(webhookId: string, succeeded: boolean): Promise<void> {
+  if (succeeded) {
+    await prisma.webhook.updateMany({ where: { id: webhookId, failureCount: { gt: 0 } }, data: { failureCount: 0 } });
+    return;
+  }
+  const { failureCount } = await prisma.webhook.update({ where: { id: webhookId }, data: { failureCount: { increment: 1 } }, select: { failureCount: true } });
+  if (failureCount >= DISABLE_AFTER_FAILURES) {
+    await prisma.webhook.updateMany({ where: { id: webhookId, active: true }, data: { active: false, disabledAt: new Date() } });
+  }
+}
+
+/**
+ * Send a logged delivery's payload again, as a new delivery of its own, whatever became
+ * of the original. Returns the new delivery after its first attempt.
+ */
+export async function redeliver(deliveryId: string) {
+  const original = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId }, select: { webhookId: true, event: true, payload: true } });
+  const { id } = await prisma.webhookDelivery.create({
+    data: { webhookId: original.webhookId, event: original.event, payload: original.payload as Prisma.InputJsonValue, nextAttemptAt: claimUntil() },
+    select: { id: true },
+  });
+  await attemptDelivery(id);
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id }, select: DELIVERY_SELECT });
+}
+
+// ========== WORKER ==========
+
+const WORKER_INTERVAL_MS = 15_000;
+const WORKER_BATCH = 20;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Attempt every delivery whose retry is due, a batch at a time. Rows are claimed with
+ * SKIP LOCKED, so any number of servers can run this at once without sending twice.
+ */
+async function processDueDeliveries(): Promise<number> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE webhook_deliveries SET next_attempt_at = ${claimUntil()}
+     WHERE id IN (SELECT id FROM webhook_deliveries
+                   WHERE status = 'pending' AND next_attempt_at <= now()
+                   ORDER BY next_attempt_at
+                   LIMIT ${WORKER_BATCH}
+                     FOR UPDATE SKIP LOCKED)
+    RETURNING id
+  `;
+  await Promise.allSettled(claimed.map(({ id }) => attemptDelivery(id)));
+  return claimed.length;
+}
+
+async function pruneDeliveries(): Promise<void> {
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.webhookDelivery.deleteMany({ where: { createdAt: { lt: cutoff }, status: { not: 'pending' } } });
+}
+
+const globalForWorker = globalThis as unknown as { webhookWorker: ReturnType<typeof setInterval> | undefined };
+
+/**
+ * Retry due deliveries on a timer for as long as the server runs. Started once per
+ * process from instrumentation.ts; it is the only thing that sends retries, so reading
+ * the delivery log never triggers outbound requests.
+ */
+export function startDeliveryWorker(): void {
+  if (globalForWorker.webhookWorker) return;
+  let running = false;
+  let prunedAt = 0;
+  globalForWorker.webhookWorker = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDueDeliveries();
+      if (Date.now() - prunedAt > PRUNE_INTERVAL_MS) {
+        await pruneDeliveries();
+        prunedAt = Date.now();
+      }
+    } catch (err) {
+      console.error('Webhook worker error:', err);
+    } finally {
+      running = false;
+    }
+  }, WORKER_INTERVAL_MS);
+  globalForWorker.webhookWorker.unref();
 }
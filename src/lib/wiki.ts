@@ -2,15 +2,26 @@
 
 import { cache } from 'react';
 import { unstable_cache } from 'next/cache';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma/client';
-import { isValidTagPath, getSortOrder, getMetadataKeys, HIDDEN_TAG_PATHS, type SortOrder } from '@/lib/tags';
-import type { WikiPage, IdeasPage } from '@/types';
+import { isValidTagPath, getSortOrder, getMetadataKeys, HIDDEN_TAG_PATHS, TAG_HIERARCHY, type SortOrder, type TagNode } from '@/lib/tags';
+import type { WikiPage, IdeasPage, SearchSuggestions, AuthSession, MatchedRevision, RevisionSearchHit } from '@/types';
 import type { Block, RecentPagesBlock, PageListBlock, RssFeedBlock, ColumnsBlock } from '@/types/blocks';
-import { computeRevisionDiff } from '@/lib/versioning';
+import { computeRevisionDiff, blameBlocks, flattenBlocks, type BlockChange } from '@/lib/versioning';
+import { extractText } from '@/lib/content';
+import { getEmbeddingProvider, toVectorLiteral } from '@/lib/embeddings';
+import { parseSearchQuery, searchHighlightText, expandSynonyms, normalizeSynonym, type ParsedSearch, type SearchFilter, type SearchTerm, type SynonymGroups } from '@/lib/search-query';
+import { buildSearchFacets, SECTION_FACET, type Facet, type FacetFilters } from '@/lib/taxonomy';
+import { isAdmin } from '@/lib/auth';
+import { getMatchSnippet, slugify } from '@/lib/utils';
 
 // ========== PRISMA QUERY FRAGMENTS ==========
 export const AUTHOR_SELECT = { select: { id: true, displayName: true, radixAddress: true, avatarUrl: true } } as const;
-export const PAGE_INCLUDE = { author: AUTHOR_SELECT, _count: { select: { revisions: true } } } as const;
+/** Revisions that are part of the page's history — not edits held for review or rejected. */
+export const PUBLISHED = { status: 'published' } as const;
+/** Pages not in the trash. Every read outside the trash view goes through this. */
+export const LIVE = { deletedAt: null } as const;
+export const PAGE_INCLUDE = { author: AUTHOR_SELECT, _count: { select: { revisions: { where: PUBLISHED } } } } as const;
 export const CATEGORY_SELECT = {
   id: true, slug: true, title: true, content: true, bannerImage: true,
   tagPath: true, metadata: true, version: true, createdAt: true, updatedAt: true,
@@ -18,7 +29,7 @@ export const CATEGORY_SELECT = {
 } as const;
 export const PAGE_LIST_SELECT = {
   ...CATEGORY_SELECT,
-  _count: { select: { revisions: true } },
+  _count: { select: { revisions: { where: PUBLISHED } } },
 } as const;
 const CACHE_OPTS = { tags: ['wiki'], revalidate: 60 };
 
@@ -29,15 +40,16 @@ export function cached<T extends (...args: any[]) => Promise<any>>(key: string,
 
 // ========== UNIFIED PATH PARSING ==========
 
-const SUFFIXES = ['edit', 'history', 'mdx'] as const;
+const SUFFIXES = ['edit', 'history', 'blame', 'mdx'] as const;
 type Suffix = typeof SUFFIXES[number];
 
 export interface ParsedPath {
-  type: 'homepage' | 'category' | 'page' | 'history' | 'edit' | 'mdx' | 'leaderboard' | 'welcome' | 'rewards' | 'search' | 'maintenance' | 'charts' | 'charts-validators' | 'charts-tokens' | 'token-detail' | 'invalid';
+  type: 'homepage' | 'category' | 'page' | 'history' | 'blame' | 'edit' | 'mdx' | 'leaderboard' | 'welcome' | 'rewards' | 'search' | 'maintenance' | 'review' | 'trash' | 'protection' | 'charts' | 'charts-validators' | 'charts-tokens' | 'token-detail' | 'go' | 'synonyms' | 'invalid';
   tagPath: string;
   slug: string;
   suffix: Suffix | null;
   tokenAddress?: string;
+  alias?: string;
 }
 
 export function parsePath(segments: string[] = [], mode: 'client' | 'api' = 'client'): ParsedPath {
@@ -60,6 +72,21 @@ export function parsePath(segments: string[] = [], mode: 'client' | 'api' = 'cli
   if (segments.length === 1 && segments[0] === 'maintenance') {
     return { ...base, type: 'maintenance' };
   }
+  if (segments.length === 1 && segments[0] === 'review') {
+    return { ...base, type: 'review' };
+  }
+  if (segments.length === 1 && segments[0] === 'trash') {
+    return { ...base, type: 'trash' };
+  }
+  if (segments.length === 1 && segments[0] === 'protection') {
+    return { ...base, type: 'protection' };
+  }
+  if (segments.length === 1 && segments[0] === 'synonyms') {
+    return { ...base, type: 'synonyms' };
+  }
+  if (segments.length === 2 && segments[0] === 'go') {
+    return { ...base, type: 'go', alias: segments[1] };
+  }
 
   // Charts section
   if (segments[0] === 'charts') {
@@ -72,7 +99,7 @@ export function parsePath(segments: string[] = [], mode: 'client' | 'api' = 'cli
     return { ...base, type: 'invalid' };
   }
 
-  // Single-segment suffix (e.g., /edit, /history, /mdx)
+  // Single-segment suffix (e.g., /edit, /history, /blame, /mdx)
   if (segments.length === 1 && SUFFIXES.includes(segments[0] as Suffix)) {
     const suffix = segments[0] as Suffix;
     if (mode === 'api' && suffix === 'edit') return { ...base, type: 'invalid' };
@@ -114,20 +141,31 @@ export function parsePath(segments: string[] = [], mode: 'client' | 'api' = 'cli
 
 export const getHomepage = cached('getHomepage',
   async (): Promise<WikiPage | null> => {
-    return prisma.page.findUnique({ where: { tagPath_slug: { tagPath: '', slug: '' } }, include: PAGE_INCLUDE }) as Promise<WikiPage | null>;
+    return prisma.page.findUnique({ where: { tagPath_slug: { tagPath: '', slug: '' }, ...LIVE }, include: PAGE_INCLUDE }) as Promise<WikiPage | null>;
   },
 );
 
 export const getPage = cached('getPage',
   async (tagPath: string, slug: string): Promise<WikiPage | null> => {
-    return prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug } }, include: PAGE_INCLUDE }) as Promise<WikiPage | null>;
+    return prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug }, ...LIVE }, include: PAGE_INCLUDE }) as Promise<WikiPage | null>;
+  },
+);
+
+/** Where a page that used to live at this address is now, if it moved. */
+export const getRedirect = cached('getRedirect',
+  async (tagPath: string, slug: string): Promise<{ tagPath: string; slug: string } | null> => {
+    const redirect = await prisma.redirect.findUnique({
+      where: { fromTagPath_fromSlug: { fromTagPath: tagPath, fromSlug: slug } },
+      select: { page: { select: { tagPath: true, slug: true, deletedAt: true } } },
+    });
+    return redirect && !redirect.page.deletedAt ? { tagPath: redirect.page.tagPath, slug: redirect.page.slug } : null;
   },
 );
 
 export const getEcosystemPageByAsset = cached('getEcosystemPageByAsset',
   async (resourceAddress: string): Promise<{ tagPath: string; slug: string; title: string } | null> => {
     return prisma.page.findFirst({
-      where: { tagPath: { startsWith: 'ecosystem' }, metadata: { path: ['assets'], equals: resourceAddress } },
+      where: { tagPath: { startsWith: 'ecosystem' }, metadata: { path: ['assets'], equals: resourceAddress }, ...LIVE },
       select: { tagPath: true, slug: true, title: true },
     });
   },
@@ -145,7 +183,7 @@ export const getCategoryPages = cached('getCategoryPages',
     const resolvedSort = sort ?? getSortOrder(tagPath.split('/'));
     const hasDateMeta = resolvedSort !== 'title' && getMetadataKeys(tagPath.split('/')).some(k => k.key === 'date' && k.type === 'date');
     const pages = await prisma.page.findMany({
-      where: { tagPath },
+      where: { tagPath, ...LIVE },
       select: CATEGORY_SELECT,
       orderBy: sortOrderBy[resolvedSort],
       take: limit,
@@ -165,7 +203,7 @@ export const getDescendantPages = cached('getDescendantPages',
   async (tagPath: string, sort?: SortOrder, limit = 200): Promise<WikiPage[]> => {
     const resolvedSort = sort ?? getSortOrder(tagPath.split('/'));
     return prisma.page.findMany({
-      where: { tagPath: { startsWith: `${tagPath}/` } },
+      where: { tagPath: { startsWith: `${tagPath}/` }, ...LIVE },
       select: CATEGORY_SELECT,
       orderBy: sortOrderBy[resolvedSort],
       take: limit,
@@ -175,7 +213,7 @@ export const getDescendantPages = cached('getDescendantPages',
 
 /** Pages per tag path, for the "44 pages · 3 subcategories" line on subcategory cards. */
 export const getTagCounts = cached('getTagCounts', async (): Promise<Record<string, number>> => {
-  const rows = await prisma.page.groupBy({ by: ['tagPath'], _count: { _all: true } });
+  const rows = await prisma.page.groupBy({ by: ['tagPath'], where: LIVE, _count: { _all: true } });
   return Object.fromEntries(rows.map(r => [r.tagPath, r._count._all]));
 });
 
@@ -184,7 +222,7 @@ export const getPageRef = cached('getPageRef',
   async (path: string): Promise<{ title: string; href: string } | null> => {
     const slug = path.split('/').pop() ?? '';
     const tagPath = path.slice(0, -(slug.length + 1));
-    const page = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug } }, select: { title: true } });
+    const page = await prisma.page.findUnique({ where: { tagPath_slug: { tagPath, slug }, ...LIVE }, select: { title: true } });
     return page && { title: page.title, href: `/${path}` };
   },
 );
@@ -196,7 +234,7 @@ export function isIdeasPath(tagPath: string): boolean {
 export const getIdeasPages = cached('getIdeasPages',
   async (tagPath: string, limit = 200): Promise<IdeasPage[]> => {
     const pages = await prisma.page.findMany({
-      where: { tagPath: { startsWith: tagPath } },
+      where: { tagPath: { startsWith: tagPath }, ...LIVE },
       select: {
         ...CATEGORY_SELECT,
         _count: { select: { comments: true } },
@@ -218,15 +256,15 @@ export const getIdeasPages = cached('getIdeasPages',
 export const getPageHistory = cached('getPageHistory',
   async (tagPath: string, slug: string) => {
     const page = await prisma.page.findUnique({
-      where: { tagPath_slug: { tagPath, slug } },
+      where: { tagPath_slug: { tagPath, slug }, ...LIVE },
       select: { id: true, title: true, version: true },
     });
     if (!page) return null;
 
     const revisions = await prisma.revision.findMany({
-      where: { pageId: page.id },
+      where: { pageId: page.id, ...PUBLISHED },
       select: {
-        id: true, title: true, version: true, changeType: true,
+        id: true, title: true, version: true, changeType: true, changeRationale: true,
         changes: true, content: true, message: true, createdAt: true,
         author: AUTHOR_SELECT,
       },
@@ -254,6 +292,66 @@ export const getPageHistory = cached('getPageHistory',
   },
 );
 
+/** Diff two arbitrary revisions of a page, older → newer regardless of argument order. */
+export const getRevisionComparison = cached('getRevisionComparison',
+  async (tagPath: string, slug: string, fromId: string, toId: string) => {
+    const page = await prisma.page.findUnique({
+      where: { tagPath_slug: { tagPath, slug }, ...LIVE },
+      select: { id: true, version: true },
+    });
+    if (!page) return null;
+
+    const revisions = await prisma.revision.findMany({
+      // Held and rejected edits stay out of public comparisons; reviewers see them in the review queue.
+      where: { pageId: page.id, id: { in: [fromId, toId] }, ...PUBLISHED },
+      select: { id: true, title: true, version: true, content: true, message: true, createdAt: true, author: AUTHOR_SELECT },
+      orderBy: { createdAt: 'asc' },
+    });
+    const [older, newer] = revisions.length === 2 ? revisions : fromId === toId ? [revisions[0], revisions[0]] : [];
+    if (!older || !newer) return null;
+
+    const diff = computeRevisionDiff(
+      older.version, (older.content as unknown as Block[]) || [], (newer.content as unknown as Block[]) || [],
+      older.title, newer.title, null, null,
+    );
+    const meta = ({ id, title, version, message, createdAt, author }: typeof older) => ({ id, title, version, message, createdAt, author });
+    return { currentVersion: page.version, from: meta(older), to: meta(newer), diff };
+  },
+);
+
+/** Each block of the current page attributed to the revision that last added or edited it. */
+export const getPageBlame = cached('getPageBlame',
+  async (tagPath: string, slug: string) => {
+    const page = await prisma.page.findUnique({
+      where: { tagPath_slug: { tagPath, slug }, ...LIVE },
+      select: { id: true, title: true, version: true, content: true },
+    });
+    if (!page) return null;
+
+    const revisions = await prisma.revision.findMany({
+      where: { pageId: page.id, ...PUBLISHED },
+      select: { id: true, version: true, content: true, changes: true, message: true, createdAt: true, author: AUTHOR_SELECT },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const blame = blameBlocks(revisions.map(r => ({ content: (r.content as unknown as Block[]) || [], changes: r.changes as unknown as BlockChange[] | null })));
+    const blocks = flattenBlocks((page.content as unknown as Block[]) || []).map(({ block, path, depth }) => {
+      const i = blame.get(block.id);
+      const rev = i !== undefined ? revisions[i]! : null;
+      return {
+        id: block.id, type: block.type, path, depth,
+        excerpt: block.type === 'infobox' || block.type === 'columns' ? null : extractText([block]).slice(0, 600) || null,
+        revision: rev && {
+          id: rev.id, version: rev.version, createdAt: rev.createdAt, message: rev.message, author: rev.author,
+          previousId: i ? revisions[i - 1]!.id : null,
+        },
+      };
+    });
+
+    return { title: page.title, currentVersion: page.version, blocks };
+  },
+);
+
 // ========== SEARCH ==========
 
 /** Re-order rows to match a ranked id list, dropping ids that no longer resolve. */
@@ -263,49 +361,460 @@ export function orderByIds<T extends { id: string }>(rows: T[], ids: string[]):
 }
 
 /**
- * Ranked search over titles and page prose: title-prefix first, then title-substring,
- * then body text. Body matching reads every `text` value at any block depth
- * (`$.**.text`) rather than the raw JSON, so block ids, type discriminators and markup
- * can't score as prose; tags and non-breaking spaces are collapsed so a typed
- * "534 KB" still matches a stored "534&nbsp;KB". Hidden tag paths are article space's
- * back office — the maintenance log quotes every edit ever made, so it would head the
- * body tier on almost any query; it stays findable by title. Returns ranked ids and the
- * unpaginated total — hydrate them with whichever select the caller needs.
+ * "Did you mean": the query with each word the wiki doesn't know swapped for the
+ * closest one it does, by trigram similarity; null when every word is known or none
+ * has a close enough neighbour. A word counts as known when its stem is indexed, so
+ * "staking" isn't corrected to "stake".
+ */
+async function suggestCorrection(query: string): Promise<string | null> {
+  const words = [...new Set(parseSearchQuery(query).flat()
+    .flatMap(t => (t.kind === 'text' && !t.negated ? t.value.toLowerCase().split(/[^\p{L}]+/u) : []))
+    .filter(w => w.length >= 3))];
+  if (!words.length) return null;
+
+  const rows = await prisma.$queryRaw<{ input: string; correction: string | null }[]>`
+    SELECT w.input,
+           (SELECT word FROM search_terms WHERE word % w.input ORDER BY similarity(word, w.input) DESC, ndoc DESC LIMIT 1) AS correction
+      FROM unnest(${words}::text[]) AS w(input)
+     WHERE NOT EXISTS (SELECT 1 FROM search_terms WHERE word = ANY(tsvector_to_array(to_tsvector('english', w.input))))
+       AND tsvector_to_array(to_tsvector('english', w.input)) <> '{}'
+  `;
+  let corrected = query;
+  for (const { input, correction } of rows) {
+    if (correction) corrected = corrected.replace(new RegExp(`(?<![\\p{L}\\p{N}])${input}(?![\\p{L}\\p{N}])`, 'giu'), correction);
+  }
+  return corrected !== query ? corrected : null;
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
+
+/**
+ * One text term as `to_tsquery` input: a phrase matches its words in sequence, a
+ * trailing `*` matches by prefix (`stak*`), and every word is stemmed, so "staking"
+ * finds "stake". Only letters and digits reach the query, so nothing typed can inject
+ * tsquery operators. Null when no searchable word is left.
+ */
+function toLexemes(value: string, phrase: boolean): string | null {
+  const lexemes = value.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (!lexemes.length) return null;
+  if (!phrase && value.endsWith('*')) lexemes[lexemes.length - 1] += ':*';
+  // Hyphenated words and phrases alike must match in order.
+  return lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0]!;
+}
+
+function filterCondition(filter: SearchFilter): Prisma.Sql {
+  switch (filter.field) {
+    case 'tag':
+      return Prisma.sql`(tag_path = ${filter.value} OR tag_path LIKE ${`${escapeLike(filter.value)}/%`})`;
+    case 'author':
+      return Prisma.sql`author_id IN (SELECT id FROM users WHERE display_name ILIKE ${escapeLike(filter.value)} OR radix_address = ${filter.value})`;
+    case 'updated': {
+      const { op, from, to } = filter;
+      if (op === '>') return Prisma.sql`updated_at >= ${to}`;
+      if (op === '>=') return Prisma.sql`updated_at >= ${from}`;
+      if (op === '<') return Prisma.sql`updated_at < ${from}`;
+      if (op === '<=') return Prisma.sql`updated_at < ${to}`;
+      return Prisma.sql`(updated_at >= ${from} AND updated_at < ${to})`;
+    }
+    case 'metadata': {
+      // Select options carry an emoji marker ("🟢 Active"); `status:Active` should find them.
+      const value = escapeLike(filter.value.trim());
+      return filter.key.type === 'select'
+        ? Prisma.sql`(metadata->>${filter.key.key} ILIKE ${value} OR metadata->>${filter.key.key} ILIKE ${`% ${value}`})`
+        : Prisma.sql`metadata->>${filter.key.key} ILIKE ${`%${value}%`}`;
+    }
+  }
+}
+
+function termCondition(term: SearchTerm): Prisma.Sql | null {
+  let condition: Prisma.Sql | null;
+  if (term.kind === 'filter') condition = filterCondition(term.filter);
+  else {
+    const lexemes = toLexemes(term.value, term.phrase);
+    condition = lexemes ? Prisma.sql`search_vector @@ to_tsquery('english', ${lexemes})` : null;
+  }
+  // Pages missing the field (or not yet indexed) count as not matching it, so exclusions keep them.
+  return condition && (term.negated ? Prisma.sql`NOT coalesce(${condition}, false)` : condition);
+}
+
+/**
+ * Compile a parsed query. Clauses of plain text fold into one tsquery — `OR` becomes
+ * `|`, `-word` becomes `!word` — which both filters and ranks; clauses that involve a
+ * field filter become SQL conditions. Words are matched with their `synonyms`, but
+ * `title` is the typed text when it is nothing but positive words, for the title-prefix
+ * tier and the partial-word title match.
+ */
+function compileSearch(clauses: ParsedSearch, synonyms: SynonymGroups = []): { tsQuery: string | null; conditions: Prisma.Sql[]; title: string | null } {
+  const tsParts: string[] = [];
+  const conditions: Prisma.Sql[] = [];
+  for (const clause of expandSynonyms(clauses, synonyms)) {
+    if (clause.every(t => t.kind === 'text')) {
+      const alternatives = clause.flatMap(t => {
+        const lexemes = t.kind === 'text' && toLexemes(t.value, t.phrase);
+        return lexemes ? [t.negated ? `!${lexemes}` : lexemes] : [];
+      });
+      if (alternatives.length) tsParts.push(alternatives.length > 1 ? `(${alternatives.join(' | ')})` : alternatives[0]!);
+    } else {
+      const alternatives = clause.map(termCondition).filter((c): c is Prisma.Sql => c !== null);
+      if (alternatives.length) conditions.push(Prisma.sql`(${Prisma.join(alternatives, ' OR ')})`);
+    }
+  }
+
+  const text = clauses.flat().filter(t => t.kind === 'text');
+  const plain = clauses.every(c => c.length === 1 || c.some(t => t.kind === 'filter')) && text.every(t => !t.negated);
+  const title = plain && text.length ? text.map(t => t.value).join(' ').replace(/["*]/g, ' ').trim() : '';
+  return { tsQuery: tsParts.length ? tsParts.join(' & ') : null, conditions, title: title || null };
+}
+
+function facetCondition(key: string, value: string): Prisma.Sql {
+  return key === SECTION_FACET
+    ? Prisma.sql`(tag_path = ${value} OR tag_path LIKE ${`${escapeLike(value)}/%`})`
+    : Prisma.sql`metadata->>${key} = ${value}`;
+}
+
+/**
+ * Everything a search matches on, shared by the ranked ids and the facet counts: the
+ * text match (`textMatch`), and the scope, field filters and facets (`scope`) that also
+ * bound the fuzzy tier and semantic search. Null when nothing searchable was typed.
+ */
+function searchWhere(query: string, tagPath: string | null, filters: FacetFilters, synonyms: SynonymGroups) {
+  const { tsQuery, conditions, title } = compileSearch(parseSearchQuery(query), synonyms);
+  const titleLike = title && escapeLike(title);
+  if (!tsQuery && !titleLike && !conditions.length) return null;
+
+  const textMatch = [
+    ...(tsQuery ? [Prisma.sql`search_vector @@ to_tsquery('english', ${tsQuery})`] : []),
+    ...(titleLike ? [Prisma.sql`title ILIKE ${`%${titleLike}%`}`] : []),
+  ];
+  const scope = [
+    Prisma.sql`slug <> ''`,
+    Prisma.sql`deleted_at IS NULL`,
+    Prisma.sql`(${tagPath}::text IS NULL OR tag_path = ${tagPath})`,
+    ...conditions,
+    ...Object.entries(filters).map(([key, value]) => facetCondition(key, value)),
+  ];
+  const anyText = textMatch.length ? Prisma.sql`(${Prisma.join(textMatch, ' OR ')})` : null;
+  const where = Prisma.join([...(anyText ? [anyText] : []), ...scope], ' AND ');
+  return { where, scope, textMatch: anyText, tsQuery, title, titleLike };
+}
+
+export interface SearchResult {
+  ids: string[];
+  total: number;
+  /** The hits came from the fuzzy tier: nothing matched as typed. */
+  fuzzy?: boolean;
+  /** The query with unknown words corrected, offered when the typed one found nothing. */
+  suggestion?: string | null;
+  /** Semantic search: the passage of each hit closest to the query, by page id. */
+  passages?: Record<string, SearchPassage>;
+  /** Semantic search ran on a lexical provider (lib/embeddings.ts): passages matched word forms, not meaning. */
+  lexical?: boolean;
+}
+
+export interface SearchPassage { heading: string | null; text: string; }
+
+/** Below this, a title is too unlike the typed words to offer as a near miss. */
+const FUZZY_TITLE_SIMILARITY = 0.4;
+
+/**
+ * Ranked full-text search over titles, metadata and page prose, in the syntax
+ * lib/search-query.ts parses, narrowed by any facet `filters` (exact values, as the
+ * facet chips offer them). Titles that start with the query lead, as they do for
+ * someone typing a page name; everything else orders by `ts_rank_cd`, which weighs
+ * where words occur and how close together they are, then by recency — so a query of
+ * filters alone lists the newest matches first. A title that merely contains the
+ * typed characters still matches, so partial words find their page.
+ *
+ * When that finds nothing, a fuzzy tier takes over: titles similar to the typed words
+ * (pg_trgm), and pages matching the query with misspellings corrected against the
+ * search vocabulary, which also comes back as a "did you mean" suggestion. Returns
+ * ranked ids and the unpaginated total — hydrate them with whichever select the caller needs.
  */
 export async function searchPageIds(
   query: string,
-  { tagPath = null, skip = 0, take = 25 }: { tagPath?: string | null; skip?: number; take?: number } = {},
-): Promise<{ ids: string[]; total: number }> {
-  const term = query.trim().replace(/[\\%_]/g, char => `\\${char}`);
-  if (!term) return { ids: [], total: 0 };
-  const like = `%${term}%`;
+  { tagPath = null, filters = {}, skip = 0, take = 25 }: { tagPath?: string | null; filters?: FacetFilters; skip?: number; take?: number } = {},
+): Promise<SearchResult> {
+  const synonyms = await getSynonymGroups();
+  const search = searchWhere(query, tagPath, filters, synonyms);
+  if (!search) return { ids: [], total: 0 };
+  const { where, scope, tsQuery, title, titleLike } = search;
 
   const rows = await prisma.$queryRaw<{ id: string; total: bigint }[]>`
     WITH matched AS (
       SELECT id, title, updated_at,
-             CASE WHEN title ILIKE ${`${term}%`} THEN 0 WHEN title ILIKE ${like} THEN 1 ELSE 2 END AS rank
+             CASE WHEN title ILIKE ${titleLike ? `${titleLike}%` : null} THEN 0 ELSE 1 END AS tier,
+             coalesce(ts_rank_cd(search_vector, to_tsquery('english', ${tsQuery ?? ''})), 0) AS rank
         FROM pages
-       WHERE slug <> ''
-         AND (${tagPath}::text IS NULL OR tag_path = ${tagPath})
-         AND (title ILIKE ${like}
-              OR (tag_path <> ALL(${HIDDEN_TAG_PATHS}::text[])
-                  AND regexp_replace(translate(jsonb_path_query_array(content, '$.**.text')::text, chr(160), ' '),
-                                     '<[^>]*>|&nbsp;', ' ', 'g') ILIKE ${like}))
+       WHERE ${where}
     )
     SELECT id, count(*) OVER () AS total
       FROM matched
-     ORDER BY rank, CASE WHEN rank = 0 THEN title END, updated_at DESC
+     ORDER BY tier, CASE WHEN tier = 0 THEN title END, rank DESC, updated_at DESC
      LIMIT ${take} OFFSET ${skip}
   `;
+  if (rows.length || skip > 0 || !title) return { ids: rows.map(row => row.id), total: Number(rows[0]?.total ?? 0) };
+
+  const suggestion = await suggestCorrection(query);
+  const corrected = suggestion ? compileSearch(parseSearchQuery(suggestion), synonyms).tsQuery : null;
+  const fuzzyMatch = Prisma.join([
+    Prisma.sql`word_similarity(${title}, title) >= ${FUZZY_TITLE_SIMILARITY}`,
+    ...(corrected ? [Prisma.sql`search_vector @@ to_tsquery('english', ${corrected})`] : []),
+  ], ' OR ');
+  // Near misses fill one page; paging through ever-weaker guesses helps no one.
+  const fuzzy = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id
+      FROM pages
+     WHERE (${fuzzyMatch}) AND ${Prisma.join(scope, ' AND ')}
+     ORDER BY greatest(word_similarity(${title}, title), coalesce(ts_rank_cd(search_vector, to_tsquery('english', ${corrected ?? ''})), 0)) DESC,
+              updated_at DESC
+     LIMIT ${take}
+  `;
+  return { ids: fuzzy.map(row => row.id), total: fuzzy.length, fuzzy: fuzzy.length > 0, suggestion };
+}
 
-  return { ids: rows.map(row => row.id), total: Number(rows[0]?.total ?? 0) };
+/** Section and select-metadata counts over every hit of a search, for narrowing it. */
+export async function searchFacets(
+  query: string,
+  { tagPath = null, filters = {} }: { tagPath?: string | null; filters?: FacetFilters } = {},
+): Promise<Facet[]> {
+  // Counted over the unfiltered hits: `buildSearchFacets` applies the other filters per facet.
+  const search = searchWhere(query, tagPath, {}, await getSynonymGroups());
+  if (!search) return [];
+  const rows = await prisma.$queryRaw<{ tag_path: string; metadata: unknown }[]>`
+    SELECT tag_path, metadata FROM pages WHERE ${search.where}
+  `;
+  return buildSearchFacets(rows.map(row => ({ tagPath: row.tag_path, metadata: row.metadata })), filters);
 }
 
+// ========== SEMANTIC SEARCH ==========
+
+/** The hybrid score: the nearest passage's similarity, body rank, and a title that starts with the query. */
+const HYBRID_WEIGHTS = { vector: 0.6, body: 0.25, title: 0.15 };
+
+/**
+ * Search by meaning, for natural-language questions keyword search handles poorly. Pages
+ * rank by how close their nearest passage is to the query, blended with the keyword
+ * tiers — body rank over any of the query's words, and a title that starts with it — so
+ * a page named exactly still leads. A page qualifies with a passage within the provider's
+ * `minSimilarity`, or by matching as keyword search would. Scope, field filters, facets
+ * and `-exclusions` bound it as they bound keyword search; each hit comes with the
+ * passage that matched. A query of filters alone has no meaning to embed, and an
+ * unreachable provider has none to offer: both run as keyword search instead. Only the
+ * query is embedded here; pages are embedded by the worker in lib/search-index.ts, and
+ * match by keyword alone until it reaches them.
+ */
+export async function semanticSearchPageIds(
+  query: string,
+  options: { tagPath?: string | null; filters?: FacetFilters; skip?: number; take?: number } = {},
+): Promise<SearchResult> {
+  const { tagPath = null, filters = {}, skip = 0, take = 25 } = options;
+  const text = searchHighlightText(query).trim();
+  const synonyms = await getSynonymGroups();
+  const search = searchWhere(query, tagPath, filters, synonyms);
+  if (!search || !text) return searchPageIds(query, options);
+
+  const provider = getEmbeddingProvider();
+  let vector: number[];
+  try {
+    [vector] = await provider.embed([text]) as [number[]];
+  } catch (e) {
+    console.error('Semantic search unavailable, falling back to keyword search:', e);
+    return searchPageIds(query, options);
+  }
+
+  const clauses = parseSearchQuery(query);
+  const anyWord = expandSynonyms(clauses, synonyms).flat()
+    .flatMap(t => (t.kind === 'text' && !t.negated ? [toLexemes(t.value, t.phrase)] : []))
+    .filter(Boolean).join(' | ');
+  const exclusions = clauses
+    .filter(c => c.length === 1 && c[0]!.kind === 'text' && c[0]!.negated)
+    .map(c => termCondition(c[0]!))
+    .filter((c): c is Prisma.Sql => c !== null);
+  const { scope, textMatch, titleLike } = search;
+  const target = toVectorLiteral(vector);
+
+  const rows = await prisma.$queryRaw<{ id: string; heading: string | null; text: string | null; total: bigint }[]>`
+    WITH scoped AS (
+      SELECT id, title, updated_at, search_vector, embedded_with
+        FROM pages
+       WHERE ${Prisma.join([...scope, ...exclusions], ' AND ')}
+    ), nearest AS (
+      SELECT DISTINCT ON (c.page_id) c.page_id, c.heading, c.text, 1 - (c.embedding <=> ${target}::vector) AS similarity
+        FROM page_chunks c JOIN scoped s ON s.id = c.page_id
+       WHERE s.embedded_with = ${provider.id}
+       ORDER BY c.page_id, c.embedding <=> ${target}::vector
+    ), ranked AS (
+      SELECT s.id, s.updated_at, n.heading, n.text,
+             ${HYBRID_WEIGHTS.vector}::float8 * coalesce(n.similarity, 0)
+             + ${HYBRID_WEIGHTS.body}::float8 * coalesce(ts_rank_cd(s.search_vector, to_tsquery('english', ${anyWord}), 32), 0)
+             + ${HYBRID_WEIGHTS.title}::float8 * CASE WHEN s.title ILIKE ${titleLike ? `${titleLike}%` : null} THEN 1 ELSE 0 END AS score
+        FROM scoped s LEFT JOIN nearest n ON n.page_id = s.id
+       WHERE coalesce(n.similarity, 0) >= ${provider.minSimilarity}::float8 OR coalesce(${textMatch ?? Prisma.sql`false`}, false)
+    )
+    SELECT id, heading, text, count(*) OVER () AS total
+      FROM ranked
+     ORDER BY score DESC, updated_at DESC
+     LIMIT ${take} OFFSET ${skip}
+  `;
+  return {
+    ids: rows.map(row => row.id),
+    total: Number(rows[0]?.total ?? 0),
+    passages: Object.fromEntries(rows.flatMap(row => (row.text ? [[row.id, { heading: row.heading, text: row.text }]] : []))),
+    ...(provider.lexical && { lexical: true }),
+  };
+}
+
+// ========== REVISION SEARCH ==========
+
+/**
+ * Search the wiki's past instead of its present, for tracing vandalism or a fact that
+ * went missing: every published revision's title and prose, in the syntax of
+ * `searchPageIds`. Filters read the revision where it has the field — `author:` wrote
+ * it, `updated:` is when — and the page for `tag:` and metadata. Hits group by page,
+ * newest matching revision first, with the oldest that matched and whether the page
+ * still matches today. Trashed pages are searched only for those who could restore them.
+ * Revisions are indexed by the worker in lib/search-index.ts, so the newest may take a pass to appear.
+ */
+export async function searchRevisions(
+  query: string,
+  session: AuthSession,
+  { skip = 0, take = 25 }: { skip?: number; take?: number } = {},
+): Promise<{ hits: RevisionSearchHit[]; total: number }> {
+  const { tsQuery, conditions } = compileSearch(parseSearchQuery(query), await getSynonymGroups());
+  if (!tsQuery && !conditions.length) return { hits: [], total: 0 };
+
+  const textMatch = tsQuery ? [Prisma.sql`search_vector @@ to_tsquery('english', ${tsQuery})`] : [];
+  // Column names as the filter conditions expect them, read off the revision where it has them.
+  const rows = await prisma.$queryRaw<{ page_id: string; latest_id: string; earliest_id: string; matches: bigint; current: boolean | null; total: bigint }[]>`
+    WITH history AS (
+      SELECT r.id, r.page_id, r.search_vector, r.author_id, r.created_at AS updated_at, p.tag_path, p.metadata
+        FROM revisions r JOIN pages p ON p.id = r.page_id
+       WHERE r.status = 'published' AND (p.deleted_at IS NULL OR ${isAdmin(session)} OR p.author_id = ${session.userId})
+    ), grouped AS (
+      SELECT page_id, count(*) AS matches, max(updated_at) AS latest_at,
+             (array_agg(id ORDER BY updated_at DESC))[1] AS latest_id,
+             (array_agg(id ORDER BY updated_at))[1] AS earliest_id
+        FROM history
+       WHERE ${Prisma.join([...textMatch, ...conditions], ' AND ')}
+       GROUP BY page_id
+    )
+    SELECT g.page_id, g.latest_id, g.earliest_id, g.matches, count(*) OVER () AS total,
+           CASE WHEN ${tsQuery}::text IS NULL THEN NULL ELSE coalesce(p.search_vector @@ to_tsquery('english', ${tsQuery ?? ''}), false) END AS current
+      FROM grouped g JOIN pages p ON p.id = g.page_id
+     ORDER BY g.latest_at DESC
+     LIMIT ${take} OFFSET ${skip}
+  `;
+  if (!rows.length) return { hits: [], total: 0 };
+
+  const [pages, revisions] = await Promise.all([
+    prisma.page.findMany({ where: { id: { in: rows.map(r => r.page_id) } }, select: { id: true, title: true, tagPath: true, slug: true, deletedAt: true } }),
+    prisma.revision.findMany({
+      where: { id: { in: rows.flatMap(r => [r.latest_id, r.earliest_id]) } },
+      select: { id: true, title: true, version: true, createdAt: true, content: true, author: AUTHOR_SELECT },
+    }),
+  ]);
+  const pageById = new Map(pages.map(p => [p.id, p]));
+  const revisionById = new Map(revisions.map(r => [r.id, r]));
+  const highlight = searchHighlightText(query);
+  const matchedRevision = ({ id, title, version, createdAt, author }: (typeof revisions)[number]): MatchedRevision => ({ id, title, version, createdAt, author });
+  const hits = rows.flatMap(row => {
+    const page = pageById.get(row.page_id), latest = revisionById.get(row.latest_id), earliest = revisionById.get(row.earliest_id);
+    if (!page || !latest || !earliest) return [];
+    const { deletedAt, ...rest } = page;
+    return [{
+      page: { ...rest, deleted: deletedAt !== null },
+      latest: matchedRevision(latest), earliest: matchedRevision(earliest),
+      matches: Number(row.matches), current: row.current, snippet: getMatchSnippet(latest.content, highlight, 220),
+    }];
+  });
+  return { hits, total: Number(rows[0]!.total) };
+}
+
+// ========== SYNONYMS AND ALIASES ==========
+
+/** The synonym table as search applies it, edited at /synonyms. */
+export const getSynonymGroups = cached('getSynonymGroups', async (): Promise<SynonymGroups> => {
+  const groups = await prisma.synonymGroup.findMany({ select: { terms: true }, orderBy: { createdAt: 'asc' } });
+  return groups.map(g => g.terms);
+});
+
+/**
+ * Where `/go/<alias>` lands: the page with that title, else one listing it among its
+ * `aliases` metadata, else one whose slug it is — trying the name as typed first, then
+ * the other names in its synonym group. Null when nothing answers to it.
+ */
+export const resolveAlias = cached('resolveAlias', async (alias: string): Promise<{ tagPath: string; slug: string } | null> => {
+  const typed = normalizeSynonym(alias);
+  if (!typed) return null;
+  const group = (await getSynonymGroups()).find(g => g.includes(typed)) ?? [];
+  for (const name of [typed, ...group.filter(n => n !== typed)]) {
+    const [page] = await prisma.$queryRaw<{ tag_path: string; slug: string }[]>`
+      SELECT tag_path, slug
+        FROM pages,
+             LATERAL (SELECT CASE WHEN lower(title) = ${name} THEN 0
+                                  WHEN ${name} = ANY(SELECT lower(trim(a)) FROM unnest(string_to_array(metadata->>'aliases', ',')) AS a) THEN 1
+                                  WHEN slug = ${slugify(name)} THEN 2 END AS tier) t
+       WHERE deleted_at IS NULL AND slug <> '' AND tag_path <> ALL(${HIDDEN_TAG_PATHS}::text[]) AND t.tier IS NOT NULL
+       ORDER BY t.tier, updated_at DESC
+       LIMIT 1
+    `;
+    if (page) return { tagPath: page.tag_path, slug: page.slug };
+  }
+  return null;
+});
+
+// ========== SEARCH SUGGESTIONS ==========
+
+const SUGGEST_LIMIT = { pages: 6, categories: 4, users: 4 };
+
+function collectCategories(nodes: TagNode[], parent = ''): { name: string; path: string }[] {
+  return nodes.filter(n => !n.hidden && n.slug).flatMap(n => {
+    const path = parent ? `${parent}/${n.slug}` : n.slug;
+    return [{ name: n.name.replace(/^\p{Emoji_Presentation}\s*/u, ''), path }, ...collectCategories(n.children ?? [], path)];
+  });
+}
+const CATEGORIES = collectCategories(TAG_HIERARCHY);
+
+/**
+ * What the header offers while someone types: pages whose title starts with the text
+ * (then those with a word that does), categories named that way, and contributors.
+ * Prefix matches only — this runs per keystroke, and full search is one Enter away.
+ * `prefix` arrives lower-cased and trimmed, so the cache sees one key per spelling.
+ */
+export const getSearchSuggestions = cached('getSearchSuggestions', async (prefix: string): Promise<SearchSuggestions> => {
+  const scope = { ...LIVE, slug: { not: '' }, tagPath: { notIn: HIDDEN_TAG_PATHS } };
+  const select = { title: true, tagPath: true, slug: true } as const;
+  const leading = await prisma.page.findMany({
+    where: { ...scope, title: { startsWith: prefix, mode: 'insensitive' } },
+    select, orderBy: { title: 'asc' }, take: SUGGEST_LIMIT.pages,
+  });
+  const inner = leading.length < SUGGEST_LIMIT.pages ? await prisma.page.findMany({
+    where: { ...scope, title: { contains: ` ${prefix}`, mode: 'insensitive' } },
+    select, orderBy: { title: 'asc' }, take: SUGGEST_LIMIT.pages - leading.length,
+  }) : [];
+
+  const words = (name: string) => name.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  const categories = CATEGORIES
+    .filter(c => words(c.name).some(w => w.startsWith(prefix)) || c.path.split('/').at(-1)!.startsWith(prefix))
+    .slice(0, SUGGEST_LIMIT.categories);
+
+  const users = await prisma.user.findMany({
+    where: prefix.startsWith('account_')
+      ? { radixAddress: { startsWith: prefix } }
+      : { displayName: { startsWith: prefix, mode: 'insensitive' } },
+    select: { id: true, displayName: true, radixAddress: true, avatarUrl: true },
+    orderBy: { displayName: 'asc' },
+    take: SUGGEST_LIMIT.users,
+  });
+
+  return { pages: [...leading, ...inner], categories, users };
+});
+
 // ========== BLOCK DATA RESOLUTION ==========
 
 const getRecentPages = unstable_cache(
   async (tagPath: string | undefined, limit: number) => prisma.page.findMany({
-    where: tagPath ? { tagPath } : undefined,
+    where: tagPath ? { tagPath, ...LIVE } : LIVE,
     select: PAGE_LIST_SELECT,
     orderBy: { updatedAt: 'desc' },
     take: limit,
@@ -315,7 +824,7 @@ const getRecentPages = unstable_cache(
 const getPagesByIds = unstable_cache(
   async (ids: string[]) => {
     if (!ids.length) return [];
-    const pages = await prisma.page.findMany({ where: { id: { in: ids } }, select: PAGE_LIST_SELECT });
+    const pages = await prisma.page.findMany({ where: { id: { in: ids }, ...LIVE }, select: PAGE_LIST_SELECT });
     return orderByIds(pages, ids);
   }, ['getPagesByIds'], CACHE_OPTS,
 );
@@ -1,6 +1,7 @@
 // src/types/index.ts
 
-import type { User, Page, Revision, Comment, Notification, Prisma } from '@prisma/client';
+import type { User, Page, Revision, Comment, Notification, Draft, Prisma } from '@prisma/client';
+import type { Block } from '@/types/blocks';
 
 // Auth types
 export interface AuthSession {
@@ -75,7 +76,36 @@ export type IdeasPage = WikiPage & {
   lastActivity: Date;
 };
 
-export type NotificationType = 'comment_on_page' | 'comment_reply' | 'page_edited';
+export type WikiDraft = Omit<Draft, 'content' | 'metadata'> & {
+  content: Block[];
+  metadata: PageMetadata | null;
+};
+
+export type DraftSummary = Pick<Draft, 'id' | 'tagPath' | 'slug' | 'title' | 'baseVersion' | 'updatedAt'>;
+
+/** `/api/search/suggest` — what the header dropdown offers for a typed prefix. */
+export interface SearchSuggestions {
+  pages: Pick<Page, 'title' | 'tagPath' | 'slug'>[];
+  categories: { name: string; path: string }[];
+  users: WikiAuthor[];
+}
+
+export type MatchedRevision = Pick<Revision, 'id' | 'title' | 'version' | 'createdAt'> & { author: WikiAuthor };
+
+/** `/api/search/revisions` — a page whose history matched a search, and the revisions that did. */
+export interface RevisionSearchHit {
+  page: Pick<Page, 'id' | 'title' | 'tagPath' | 'slug'> & { deleted: boolean };
+  /** The newest revision that matched; the snippet quotes it. */
+  latest: MatchedRevision;
+  /** The oldest revision that matched — where the text came in. */
+  earliest: MatchedRevision;
+  matches: number;
+  /** Whether the page as it stands still matches: false when the text has since been removed. Null for a query of filters alone. */
+  current: boolean | null;
+  snippet: string;
+}
+
+export type NotificationType = 'comment_on_page' | 'comment_reply' | 'page_edited' | 'edit_accepted' | 'edit_rejected';
 
 export type WikiNotification = Notification & {
   actor: WikiAuthor;